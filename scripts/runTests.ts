@@ -208,6 +208,221 @@ const runImportExtensionTests = Effect.gen(function* () {
   ),
 );
 
+const runSchemaErrorTests = Effect.gen(function* () {
+  yield* Console.log("\n=== Running Schema Error Tests ===\n");
+  const fs = yield* FileSystem.FileSystem;
+
+  // Install deps if needed
+  const nodeModulesExists = yield* fs.exists("tests/schema-error/node_modules");
+  if (!nodeModulesExists) {
+    yield* runInDir("tests/schema-error", "npm", "install");
+  }
+
+  // Push DB schema (also runs generate via schema.prisma config)
+  yield* runInDir("tests/schema-error", "npm", "exec", "prisma", "db", "push");
+
+  // Type check generated effect files with strictest settings (matching Chefy's tsconfig)
+  yield* runInDir(
+    "tests/schema-error",
+    "npx",
+    "tsc",
+    "--noEmit",
+    "--strict",
+    "--exactOptionalPropertyTypes",
+    "--noUncheckedIndexedAccess",
+    "--noImplicitReturns",
+    "--noFallthroughCasesInSwitch",
+    "--noUnusedLocals",
+    "--noUnusedParameters",
+    "--moduleResolution", "NodeNext",
+    "--module", "NodeNext",
+    "--target", "ES2022",
+    "--skipLibCheck",
+    "generated/effect/index.ts",
+  );
+
+  // Run tests
+  yield* runInDir("tests/schema-error", "npm", "test");
+}).pipe(
+  Effect.ensuring(
+    process.argv.includes("--keep-db")
+      ? Effect.void
+      : Effect.ignore(run("rm", "-rf", "tests/schema-error/dev.db")),
+  ),
+);
+
+const runErrorCodesTests = Effect.gen(function* () {
+  yield* Console.log("\n=== Running Error Codes Tests ===\n");
+  const fs = yield* FileSystem.FileSystem;
+
+  // Install deps if needed
+  const nodeModulesExists = yield* fs.exists("tests/error-codes/node_modules");
+  if (!nodeModulesExists) {
+    yield* runInDir("tests/error-codes", "npm", "install");
+  }
+
+  // Push DB schema (also runs generate via schema.prisma config)
+  yield* runInDir("tests/error-codes", "npm", "exec", "prisma", "db", "push");
+
+  // Type check generated effect files with strictest settings (matching Chefy's tsconfig)
+  yield* runInDir(
+    "tests/error-codes",
+    "npx",
+    "tsc",
+    "--noEmit",
+    "--strict",
+    "--exactOptionalPropertyTypes",
+    "--noUncheckedIndexedAccess",
+    "--noImplicitReturns",
+    "--noFallthroughCasesInSwitch",
+    "--noUnusedLocals",
+    "--noUnusedParameters",
+    "--moduleResolution", "NodeNext",
+    "--module", "NodeNext",
+    "--target", "ES2022",
+    "--skipLibCheck",
+    "generated/effect/index.ts",
+  );
+
+  // Run tests
+  yield* runInDir("tests/error-codes", "npm", "test");
+}).pipe(
+  Effect.ensuring(
+    process.argv.includes("--keep-db")
+      ? Effect.void
+      : Effect.ignore(run("rm", "-rf", "tests/error-codes/dev.db")),
+  ),
+);
+
+const runErrorArgsTests = Effect.gen(function* () {
+  yield* Console.log("\n=== Running Error Args Tests ===\n");
+  const fs = yield* FileSystem.FileSystem;
+
+  // Install deps if needed
+  const nodeModulesExists = yield* fs.exists("tests/error-args/node_modules");
+  if (!nodeModulesExists) {
+    yield* runInDir("tests/error-args", "npm", "install");
+  }
+
+  // Push DB schema (also runs generate via schema.prisma config)
+  yield* runInDir("tests/error-args", "npm", "exec", "prisma", "db", "push");
+
+  // Type check generated effect files with strictest settings (matching Chefy's tsconfig)
+  yield* runInDir(
+    "tests/error-args",
+    "npx",
+    "tsc",
+    "--noEmit",
+    "--strict",
+    "--exactOptionalPropertyTypes",
+    "--noUncheckedIndexedAccess",
+    "--noImplicitReturns",
+    "--noFallthroughCasesInSwitch",
+    "--noUnusedLocals",
+    "--noUnusedParameters",
+    "--moduleResolution", "NodeNext",
+    "--module", "NodeNext",
+    "--target", "ES2022",
+    "--skipLibCheck",
+    "generated/effect/index.ts",
+  );
+
+  // Run tests
+  yield* runInDir("tests/error-args", "npm", "test");
+}).pipe(
+  Effect.ensuring(
+    process.argv.includes("--keep-db")
+      ? Effect.void
+      : Effect.ignore(run("rm", "-rf", "tests/error-args/dev.db")),
+  ),
+);
+
+const runIdentityMapTests = Effect.gen(function* () {
+  yield* Console.log("\n=== Running Identity Map Tests ===\n");
+  const fs = yield* FileSystem.FileSystem;
+
+  // Install deps if needed
+  const nodeModulesExists = yield* fs.exists("tests/identity-map/node_modules");
+  if (!nodeModulesExists) {
+    yield* runInDir("tests/identity-map", "npm", "install");
+  }
+
+  // Push DB schema (also runs generate via schema.prisma config)
+  yield* runInDir("tests/identity-map", "npm", "exec", "prisma", "db", "push");
+
+  // Type check generated effect files with strictest settings (matching Chefy's tsconfig)
+  yield* runInDir(
+    "tests/identity-map",
+    "npx",
+    "tsc",
+    "--noEmit",
+    "--strict",
+    "--exactOptionalPropertyTypes",
+    "--noUncheckedIndexedAccess",
+    "--noImplicitReturns",
+    "--noFallthroughCasesInSwitch",
+    "--noUnusedLocals",
+    "--noUnusedParameters",
+    "--moduleResolution", "NodeNext",
+    "--module", "NodeNext",
+    "--target", "ES2022",
+    "--skipLibCheck",
+    "generated/effect/index.ts",
+  );
+
+  // Run tests
+  yield* runInDir("tests/identity-map", "npm", "test");
+}).pipe(
+  Effect.ensuring(
+    process.argv.includes("--keep-db")
+      ? Effect.void
+      : Effect.ignore(run("rm", "-rf", "tests/identity-map/dev.db")),
+  ),
+);
+
+const runHttpApiTests = Effect.gen(function* () {
+  yield* Console.log("\n=== Running HttpApi Error Tests ===\n");
+  const fs = yield* FileSystem.FileSystem;
+
+  // Install deps if needed
+  const nodeModulesExists = yield* fs.exists("tests/http-api/node_modules");
+  if (!nodeModulesExists) {
+    yield* runInDir("tests/http-api", "npm", "install");
+  }
+
+  // Push DB schema (also runs generate via schema.prisma config)
+  yield* runInDir("tests/http-api", "npm", "exec", "prisma", "db", "push");
+
+  // Type check generated effect files with strictest settings (matching Chefy's tsconfig)
+  yield* runInDir(
+    "tests/http-api",
+    "npx",
+    "tsc",
+    "--noEmit",
+    "--strict",
+    "--exactOptionalPropertyTypes",
+    "--noUncheckedIndexedAccess",
+    "--noImplicitReturns",
+    "--noFallthroughCasesInSwitch",
+    "--noUnusedLocals",
+    "--noUnusedParameters",
+    "--moduleResolution", "NodeNext",
+    "--module", "NodeNext",
+    "--target", "ES2022",
+    "--skipLibCheck",
+    "generated/effect/index.ts",
+  );
+
+  // Run tests
+  yield* runInDir("tests/http-api", "npm", "test");
+}).pipe(
+  Effect.ensuring(
+    process.argv.includes("--keep-db")
+      ? Effect.void
+      : Effect.ignore(run("rm", "-rf", "tests/http-api/dev.db")),
+  ),
+);
+
 const program = Effect.gen(function* () {
   const fs = yield* FileSystem.FileSystem;
   const clean = process.argv.includes("--clean");
@@ -215,6 +430,11 @@ const program = Effect.gen(function* () {
   const prisma6Only = process.argv.includes("--prisma6");
   const customErrorOnly = process.argv.includes("--custom-error");
   const importExtensionOnly = process.argv.includes("--import-extension");
+  const schemaErrorOnly = process.argv.includes("--schema-error");
+  const errorCodesOnly = process.argv.includes("--error-codes");
+  const errorArgsOnly = process.argv.includes("--error-args");
+  const httpApiOnly = process.argv.includes("--http-api");
+  const identityMapOnly = process.argv.includes("--identity-map");
 
   // Build generator
   const distExists = yield* fs.exists("dist/");
@@ -234,12 +454,27 @@ const program = Effect.gen(function* () {
     yield* runCustomErrorTests;
   } else if (importExtensionOnly) {
     yield* runImportExtensionTests;
+  } else if (schemaErrorOnly) {
+    yield* runSchemaErrorTests;
+  } else if (errorCodesOnly) {
+    yield* runErrorCodesTests;
+  } else if (errorArgsOnly) {
+    yield* runErrorArgsTests;
+  } else if (httpApiOnly) {
+    yield* runHttpApiTests;
+  } else if (identityMapOnly) {
+    yield* runIdentityMapTests;
   } else {
     // Run all
     yield* runPrisma6Tests;
     yield* runPrisma7Tests;
     yield* runCustomErrorTests;
     yield* runImportExtensionTests;
+    yield* runSchemaErrorTests;
+    yield* runErrorCodesTests;
+    yield* runErrorArgsTests;
+    yield* runHttpApiTests;
+    yield* runIdentityMapTests;
   }
 });
 
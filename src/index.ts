@@ -39,6 +39,8 @@ generatorHandler({
 		//   - The error class (e.g., `export class PrismaError extends ...`)
 		//   - A mapper function named `mapPrismaError` with signature:
 		//     `(error: unknown, operation: string, model: string) => YourErrorType`
+		// It may also export mappers per operation category (`mapFindError`,
+		// `mapCreateError`, ...) with the same signature to narrow those operations
 		const errorConfigRaw = options.generator.config.errorImportPath;
 		const errorImportPathRaw = Array.isArray(errorConfigRaw)
 			? errorConfigRaw[0]
@@ -59,6 +61,158 @@ generatorHandler({
 			? telemetryConfigRaw[0] === "true"
 			: telemetryConfigRaw === "true";
 
+		// Client error classes to keep as defects instead of typed errors
+		// Comma-separated class names, e.g. "PrismaRustPanicError,PrismaInitializationError"
+		// Only used with the default tagged errors (not with errorImportPath)
+		const errorDefectsRaw = options.generator.config.errorDefects;
+		const errorDefects = (
+			Array.isArray(errorDefectsRaw)
+				? errorDefectsRaw
+				: (errorDefectsRaw ?? "").split(",")
+		)
+			.map((name) => name.trim())
+			.filter((name) => name.length > 0);
+		for (const name of errorDefects) {
+			if (!clientErrorClasses.some((c) => c.className === name)) {
+				throw new Error(
+					`Invalid errorDefects entry: "${name}". Expected one of ${clientErrorClasses.map((c) => c.className).join(", ")}`,
+				);
+			}
+		}
+		if (errorDefects.length > 0 && errorImportPathRaw) {
+			throw new Error("errorDefects cannot be combined with errorImportPath");
+		}
+
+		// Error class flavour of the default tagged errors:
+		//   - "data" (default): Data.TaggedError classes
+		//   - "schema": Schema.TaggedError classes with a serializable payload (code,
+		//     message, ...), e.g. for @effect/rpc or workers
+		//   - "httpApi": Schema.TaggedError classes annotated with an HTTP status,
+		//     usable as HttpApi endpoint errors (requires @effect/platform)
+		const errorClassesRaw = options.generator.config.errorClasses;
+		const errorClasses =
+			(Array.isArray(errorClassesRaw) ? errorClassesRaw[0] : errorClassesRaw) ??
+			"data";
+		if (!isErrorClassesMode(errorClasses)) {
+			throw new Error(
+				`Invalid errorClasses: "${errorClasses}". Expected one of ${errorClassesModes.join(", ")}`,
+			);
+		}
+		if (errorClasses !== "data" && errorImportPathRaw) {
+			throw new Error(
+				`errorClasses "${errorClasses}" cannot be combined with errorImportPath`,
+			);
+		}
+
+		// Error code overrides: a JSON file (relative to schema.prisma) mapping Prisma
+		// error codes to "defect", an existing tagged class, or a new tagged class:
+		//   { "P2034": "defect", "P2024": "PrismaTransactionConflictError",
+		//     "P2036": { "className": "PrismaExternalError", "status": 502 } }
+		// Only used with the default tagged errors (not with errorImportPath)
+		const errorCodesRaw = options.generator.config.errorCodes;
+		const errorCodesPath = Array.isArray(errorCodesRaw)
+			? errorCodesRaw[0]
+			: errorCodesRaw;
+		if (errorCodesPath && errorImportPathRaw) {
+			throw new Error("errorCodes cannot be combined with errorImportPath");
+		}
+		// Operation arguments attached to the default tagged errors as `args`:
+		// "where" for a sanitized copy of the where filter, plus "dataKeys" for the
+		// field names (not values) of `data`, e.g. "where,dataKeys".
+		// errorRedactFields lists fields whose values are replaced, e.g. "password,token"
+		// Only used with the default tagged errors (not with errorImportPath)
+		const errorIncludeArgsRaw = options.generator.config.errorIncludeArgs;
+		const errorIncludeArgs = (
+			Array.isArray(errorIncludeArgsRaw)
+				? errorIncludeArgsRaw
+				: (errorIncludeArgsRaw ?? "").split(",")
+		)
+			.map((name) => name.trim())
+			.filter((name) => name.length > 0);
+		for (const name of errorIncludeArgs) {
+			if (name !== "where" && name !== "dataKeys") {
+				throw new Error(
+					`Invalid errorIncludeArgs entry: "${name}". Expected one of where, dataKeys`,
+				);
+			}
+		}
+		if (errorIncludeArgs.length > 0 && errorImportPathRaw) {
+			throw new Error(
+				"errorIncludeArgs cannot be combined with errorImportPath",
+			);
+		}
+		const errorRedactFieldsRaw = options.generator.config.errorRedactFields;
+		const errorArgs: ErrorArgsConfig =
+			errorIncludeArgs.length > 0
+				? {
+						where: errorIncludeArgs.includes("where"),
+						dataKeys: errorIncludeArgs.includes("dataKeys"),
+						redact: (Array.isArray(errorRedactFieldsRaw)
+							? errorRedactFieldsRaw
+							: (errorRedactFieldsRaw ?? "").split(",")
+						)
+							.map((name) => name.trim())
+							.filter((name) => name.length > 0),
+					}
+				: null;
+
+		// What a nested $transactionWith / $transactionRetry / $batch does when it
+		// requests a stronger isolation level or a longer timeout than the outer
+		// transaction provides:
+		//   - "fail" (default): fail with PrismaTransactionOptionsConflictError
+		//   - "isolate": run it in its own independent transaction instead
+		//   - "ignore": run it in the outer transaction anyway
+		const transactionOptionsConflictRaw =
+			options.generator.config.transactionOptionsConflict;
+		const transactionOptionsConflict =
+			(Array.isArray(transactionOptionsConflictRaw)
+				? transactionOptionsConflictRaw[0]
+				: transactionOptionsConflictRaw) ?? "fail";
+		if (!isTransactionOptionsConflictPolicy(transactionOptionsConflict)) {
+			throw new Error(
+				`Invalid transactionOptionsConflict: "${transactionOptionsConflict}". Expected one of ${transactionOptionsConflictPolicies.join(", ")}`,
+			);
+		}
+
+		// What generated operations do when they run concurrently on one
+		// transaction client, which has a single connection:
+		//   - "serialize" (default): wait for each other and run one at a time
+		//   - "fail": fail with PrismaTransactionConcurrencyError
+		const transactionConcurrencyRaw =
+			options.generator.config.transactionConcurrency;
+		const transactionConcurrency =
+			(Array.isArray(transactionConcurrencyRaw)
+				? transactionConcurrencyRaw[0]
+				: transactionConcurrencyRaw) ?? "serialize";
+		if (!isTransactionConcurrencyPolicy(transactionConcurrency)) {
+			throw new Error(
+				`Invalid transactionConcurrency: "${transactionConcurrency}". Expected one of ${transactionConcurrencyPolicies.join(", ")}`,
+			);
+		}
+
+		// Prefix for the keys of the generated Context tags, e.g. "analytics" gives
+		// "analytics/Prisma". Services generated for different schemas need
+		// distinct keys to be provided together, e.g. for $transactionAcross
+		const contextTagPrefixRaw = options.generator.config.contextTagPrefix;
+		const contextTagPrefix = (
+			(Array.isArray(contextTagPrefixRaw)
+				? contextTagPrefixRaw[0]
+				: contextTagPrefixRaw) ?? ""
+		).trim();
+
+		// Cache findUnique / findUniqueOrThrow rows read by primary key within a
+		// transaction, until a write to their model ("true" or "false")
+		const identityMapConfigRaw = options.generator.config.transactionIdentityMap;
+		const transactionIdentityMap = Array.isArray(identityMapConfigRaw)
+			? identityMapConfigRaw[0] === "true"
+			: identityMapConfigRaw === "true";
+
+		const errorTable = resolveErrorTable(
+			errorCodesPath
+				? await readErrorCodeOverrides(path.resolve(schemaDir, errorCodesPath))
+				: {},
+		);
+
 		if (!outputDir) {
 			throw new Error("No output directory specified");
 		}
@@ -103,6 +257,9 @@ generatorHandler({
 		await fs.rm(outputDir, { recursive: true, force: true });
 		await fs.mkdir(outputDir, { recursive: true });
 
+		// Datasource provider decides which savepoint SQL nested transactions use
+		const provider = options.datasources[0]?.activeProvider ?? "postgresql";
+
 		// Generate unified index file with PrismaService
 		await generateUnifiedService(
 			[...models],
@@ -110,18 +267,168 @@ generatorHandler({
 			clientImportPath,
 			errorImportPath,
 			enableTelemetry,
+			provider,
+			errorDefects,
+			errorClasses,
+			errorTable,
+			errorArgs,
+			transactionOptionsConflict,
+			transactionConcurrency,
+			contextTagPrefix,
+			transactionIdentityMap,
 		);
 	},
 });
 
 type CustomErrorConfig = { path: string; className: string } | null;
 
+const errorClassesModes = ["data", "schema", "httpApi"] as const;
+
+type ErrorClassesMode = (typeof errorClassesModes)[number];
+
+const isErrorClassesMode = (value: string): value is ErrorClassesMode =>
+	(errorClassesModes as ReadonlyArray<string>).includes(value);
+
+const transactionOptionsConflictPolicies = ["fail", "isolate", "ignore"] as const;
+
+type TransactionOptionsConflictPolicy =
+	(typeof transactionOptionsConflictPolicies)[number];
+
+const isTransactionOptionsConflictPolicy = (
+	value: string,
+): value is TransactionOptionsConflictPolicy =>
+	(transactionOptionsConflictPolicies as ReadonlyArray<string>).includes(value);
+
+const transactionConcurrencyPolicies = ["serialize", "fail"] as const;
+
+type TransactionConcurrencyPolicy =
+	(typeof transactionConcurrencyPolicies)[number];
+
+const isTransactionConcurrencyPolicy = (
+	value: string,
+): value is TransactionConcurrencyPolicy =>
+	(transactionConcurrencyPolicies as ReadonlyArray<string>).includes(value);
+
+// Context tag key literal for a generated service, e.g. "analytics/Prisma"
+const contextTagKey = (contextTagPrefix: string, name: string) =>
+	JSON.stringify(contextTagPrefix ? `${contextTagPrefix}/${name}` : name);
+
+// Operation arguments attached to errors (errorIncludeArgs), null when disabled
+type ErrorArgsConfig = {
+	where: boolean;
+	dataKeys: boolean;
+	redact: string[];
+} | null;
+
+/**
+ * Prisma client errors other than PrismaClientKnownRequestError.
+ * They carry no error code, so they are matched by class and can occur on any operation.
+ */
+const clientErrorClasses = [
+	{
+		className: "PrismaValidationError",
+		prismaClass: "PrismaClientValidationError",
+		status: 400,
+	},
+	{
+		className: "PrismaInitializationError",
+		prismaClass: "PrismaClientInitializationError",
+		status: 503,
+	},
+	{
+		className: "PrismaUnknownRequestError",
+		prismaClass: "PrismaClientUnknownRequestError",
+		status: 500,
+	},
+	{
+		className: "PrismaRustPanicError",
+		prismaClass: "PrismaClientRustPanicError",
+		status: 500,
+	},
+] as const;
+
+/**
+ * Tagged errors for transaction lifecycle failures, which have no Prisma error
+ * class of their own. A closed or busy transaction client can fail any
+ * operation, so those errors are part of PrismaClientError; the start and
+ * expired errors only occur when a transaction begins or commits.
+ */
+const transactionErrorClasses = [
+	{ className: "PrismaTransactionStartError", status: 503 },
+	{ className: "PrismaTransactionExpiredError", status: 500 },
+	{ className: "PrismaTransactionClosedError", status: 500 },
+	{ className: "PrismaTransactionConcurrencyError", status: 500 },
+] as const;
+
+// Transaction lifecycle errors generated for a transactionConcurrency policy
+const transactionErrorClassesFor = (
+	transactionConcurrency: TransactionConcurrencyPolicy,
+) =>
+	transactionErrorClasses.filter(
+		(c) =>
+			transactionConcurrency === "fail" ||
+			c.className !== "PrismaTransactionConcurrencyError",
+	);
+
+/**
+ * Error categories of the default error mode: a union of tagged errors, the
+ * list of their tags and a type guard, so retry policies and error handlers
+ * can be written against a category instead of listing tags.
+ */
+const errorCategories = [
+	{
+		union: "PrismaRetryableError",
+		tags: "retryableErrorTags",
+		guard: "isRetryable",
+		doc: "Errors that may succeed when retried: connection pool timeouts, an unreachable database, transaction conflicts and transactions that could not start in time",
+		classes: [
+			"PrismaConnectionError",
+			"PrismaTransactionConflictError",
+			"PrismaTransactionStartError",
+			"PrismaDatabaseUnavailableError",
+			"PrismaInitializationError",
+		],
+	},
+	{
+		union: "PrismaConstraintError",
+		tags: "constraintErrorTags",
+		guard: "isConstraintError",
+		doc: "Errors raised when a write violates a database constraint",
+		classes: [
+			"PrismaUniqueConstraintError",
+			"PrismaForeignKeyConstraintError",
+			"PrismaDbConstraintError",
+			"PrismaMissingRequiredValueError",
+			"PrismaRelationViolationError",
+		],
+	},
+	{
+		union: "PrismaNotFoundError",
+		tags: "notFoundErrorTags",
+		guard: "isNotFound",
+		doc: "Errors raised when a record the operation needs does not exist",
+		classes: ["PrismaRecordNotFoundError", "PrismaRelatedRecordNotFoundError"],
+	},
+	{
+		union: "PrismaInputError",
+		tags: "inputErrorTags",
+		guard: "isInputError",
+		doc: "Errors raised when the query arguments or values are invalid",
+		classes: [
+			"PrismaValueTooLongError",
+			"PrismaInputValidationError",
+			"PrismaValueOutOfRangeError",
+			"PrismaValidationError",
+		],
+	},
+];
+
 function generateRawSqlOperations(
 	customError: CustomErrorConfig,
 	enableTelemetry: boolean,
 ) {
-	// With custom error, use mapError which maps to user's error type
-	// Without custom error, use mapError which maps to PrismaError union
+	// Use the service's mapError: with custom error it maps to the user's error
+	// type, without custom error to the PrismaError union
 	const errorType = customError ? customError.className : "PrismaError";
 
 	const wrapTelemetry = (name: string, generatorFn: string) =>
@@ -133,44 +440,48 @@ function generateRawSqlOperations(
     $executeRaw: ${wrapTelemetry(
 			"Prisma.$executeRaw",
 			`function* (args) {
-      const actualClient = yield* clientOrTx(client);
-      return yield* Effect.tryPromise<any, ${errorType}>({
-        try: () => (Array.isArray(args) ? actualClient.$executeRaw(args[0], ...args.slice(1)) : actualClient.$executeRaw(args)) as any,
-        catch: (error) => mapError(error, "$executeRaw", "Prisma")
-      });
+      return yield* clientOrTx(client, (actualClient) =>
+        Effect.tryPromise<any, ${errorType}>({
+          try: () => (Array.isArray(args) ? actualClient.$executeRaw(args[0], ...args.slice(1)) : actualClient.$executeRaw(args)) as any,
+          catch: (error) => mappers.mapError(error, "$executeRaw", "Prisma")
+        })
+      );
     }`,
 		)},
 
     $executeRawUnsafe: ${wrapTelemetry(
 			"Prisma.$executeRawUnsafe",
 			`function* (query, ...values) {
-      const actualClient = yield* clientOrTx(client);
-      return yield* Effect.tryPromise<any, ${errorType}>({
-        try: () => actualClient.$executeRawUnsafe(query, ...values) as any,
-        catch: (error) => mapError(error, "$executeRawUnsafe", "Prisma")
-      });
+      return yield* clientOrTx(client, (actualClient) =>
+        Effect.tryPromise<any, ${errorType}>({
+          try: () => actualClient.$executeRawUnsafe(query, ...values) as any,
+          catch: (error) => mappers.mapError(error, "$executeRawUnsafe", "Prisma")
+        })
+      );
     }`,
 		)},
 
     $queryRaw: ${wrapTelemetry(
 			"Prisma.$queryRaw",
 			`function* (args) {
-      const actualClient = yield* clientOrTx(client);
-      return yield* Effect.tryPromise<any, ${errorType}>({
-        try: () => (Array.isArray(args) ? actualClient.$queryRaw(args[0], ...args.slice(1)) : actualClient.$queryRaw(args)) as any,
-        catch: (error) => mapError(error, "$queryRaw", "Prisma")
-      });
+      return yield* clientOrTx(client, (actualClient) =>
+        Effect.tryPromise<any, ${errorType}>({
+          try: () => (Array.isArray(args) ? actualClient.$queryRaw(args[0], ...args.slice(1)) : actualClient.$queryRaw(args)) as any,
+          catch: (error) => mappers.mapError(error, "$queryRaw", "Prisma")
+        })
+      );
     }`,
 		)},
 
     $queryRawUnsafe: ${wrapTelemetry(
 			"Prisma.$queryRawUnsafe",
 			`function* (query, ...values) {
-      const actualClient = yield* clientOrTx(client);
-      return yield* Effect.tryPromise<any, ${errorType}>({
-        try: () => actualClient.$queryRawUnsafe(query, ...values) as any,
-        catch: (error) => mapError(error, "$queryRawUnsafe", "Prisma")
-      });
+      return yield* clientOrTx(client, (actualClient) =>
+        Effect.tryPromise<any, ${errorType}>({
+          try: () => actualClient.$queryRawUnsafe(query, ...values) as any,
+          catch: (error) => mappers.mapError(error, "$queryRawUnsafe", "Prisma")
+        })
+      );
     }`,
 		)},`;
 }
@@ -222,12 +533,19 @@ function generateModelTypeAliases(models: DMMF.Model[]): string {
 /**
  * Generate the IPrismaService interface that defines the contract for all Prisma operations.
  * This interface is used to type-check the service implementation and provides explicit types.
+ * Model operations are generic over their context so that `prisma.tx` can require a transaction.
  */
 function generatePrismaInterface(
 	models: DMMF.Model[],
 	customError: CustomErrorConfig,
+	transactionOptionsConflict: TransactionOptionsConflictPolicy,
 ): string {
 	const errorType = customError ? customError.className : "PrismaError";
+	// Error of nested transaction calls requesting options the outer one lacks
+	const conflictError =
+		transactionOptionsConflict === "fail"
+			? " | PrismaTransactionOptionsConflictError"
+			: "";
 
 	// Generate model operation interfaces
 	const modelInterfaces = models
@@ -239,133 +557,177 @@ function generatePrismaInterface(
 			// Helper to get Args type alias
 			const argsType = (op: string) => `${modelName}${capitalize(op)}Args`;
 
-			// Helper for error types based on operation
+			// Helper for error types based on operation: write operations use
+			// this model's narrowed unions, reads the shared category unions.
+			// With custom error, the category types come from the custom mappers
 			const errorTypeFor = (op: string) => {
-				if (customError) return customError.className;
-				// Map operations to their specific error types
-				if (["findUniqueOrThrow", "findFirstOrThrow"].includes(op)) {
-					return "PrismaFindOrThrowError";
-				} else if (
-					[
-						"findUnique",
-						"findFirst",
-						"findMany",
-						"count",
-						"aggregate",
-						"groupBy",
-					].includes(op)
-				) {
-					return "PrismaFindError";
-				} else if (
-					["create", "createMany", "createManyAndReturn"].includes(op)
-				) {
-					return "PrismaCreateError";
-				} else if (
-					["update", "updateMany", "updateManyAndReturn", "upsert"].includes(op)
-				) {
-					return "PrismaUpdateError";
-				} else if (["delete", "deleteMany"].includes(op)) {
-					return "PrismaDeleteError";
-				}
-				return "PrismaError";
+				const category = operationCategories[op] ?? "PrismaError";
+				if (customError) return category;
+				return modelErrorUnions.includes(category)
+					? modelErrorUnion(modelName, category)
+					: category;
 			};
 
-			return `  ${modelNameCamel}: {
-    findUnique: <A extends ${argsType("findUnique")}>(
-      args: A
-    ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'findUnique'> | null, ${errorTypeFor("findUnique")}>
+			return `/** Operations of the ${modelName} model, with the context their effects require */
+interface ${modelName}Operations<R = never> {
+  findUnique: <A extends ${argsType("findUnique")}>(
+    args: A
+  ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'findUnique'> | null, ${errorTypeFor("findUnique")}, R>
 
-    findUniqueOrThrow: <A extends ${argsType("findUniqueOrThrow")}>(
-      args: A
-    ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'findUniqueOrThrow'>, ${errorTypeFor("findUniqueOrThrow")}>
+  findUniqueOrThrow: <A extends ${argsType("findUniqueOrThrow")}>(
+    args: A
+  ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'findUniqueOrThrow'>, ${errorTypeFor("findUniqueOrThrow")}, R>
 
-    findFirst: <A extends ${argsType("findFirst")}>(
-      args: A
-    ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'findFirst'> | null, ${errorTypeFor("findFirst")}>
+  findFirst: <A extends ${argsType("findFirst")}>(
+    args: A
+  ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'findFirst'> | null, ${errorTypeFor("findFirst")}, R>
 
-    findFirstOrThrow: <A extends ${argsType("findFirstOrThrow")}>(
-      args: A
-    ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'findFirstOrThrow'>, ${errorTypeFor("findFirstOrThrow")}>
+  findFirstOrThrow: <A extends ${argsType("findFirstOrThrow")}>(
+    args: A
+  ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'findFirstOrThrow'>, ${errorTypeFor("findFirstOrThrow")}, R>
 
-    findMany: <A extends ${argsType("findMany")}>(
-      args?: A
-    ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'findMany'>, ${errorTypeFor("findMany")}>
+  findMany: <A extends ${argsType("findMany")}>(
+    args?: A
+  ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'findMany'>, ${errorTypeFor("findMany")}, R>
 
-    create: <A extends ${argsType("create")}>(
-      args: A
-    ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'create'>, ${errorTypeFor("create")}>
+  create: <A extends ${argsType("create")}>(
+    args: A
+  ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'create'>, ${errorTypeFor("create")}, R>
 
-    createMany: <A extends ${argsType("createMany")}>(
-      args: A
-    ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'createMany'>, ${errorTypeFor("createMany")}>
+  createMany: <A extends ${argsType("createMany")}>(
+    args: A
+  ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'createMany'>, ${errorTypeFor("createMany")}, R>
 
-    createManyAndReturn: <A extends ${argsType("createManyAndReturn")}>(
-      args: A
-    ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'createManyAndReturn'>, ${errorTypeFor("createManyAndReturn")}>
+  createManyAndReturn: <A extends ${argsType("createManyAndReturn")}>(
+    args: A
+  ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'createManyAndReturn'>, ${errorTypeFor("createManyAndReturn")}, R>
 
-    delete: <A extends ${argsType("delete")}>(
-      args: A
-    ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'delete'>, ${errorTypeFor("delete")}>
+  delete: <A extends ${argsType("delete")}>(
+    args: A
+  ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'delete'>, ${errorTypeFor("delete")}, R>
 
-    update: <A extends ${argsType("update")}>(
-      args: A
-    ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'update'>, ${errorTypeFor("update")}>
+  update: <A extends ${argsType("update")}>(
+    args: A
+  ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'update'>, ${errorTypeFor("update")}, R>
 
-    deleteMany: <A extends ${argsType("deleteMany")}>(
-      args?: A
-    ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'deleteMany'>, ${errorTypeFor("deleteMany")}>
+  deleteMany: <A extends ${argsType("deleteMany")}>(
+    args?: A
+  ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'deleteMany'>, ${errorTypeFor("deleteMany")}, R>
 
-    updateMany: <A extends ${argsType("updateMany")}>(
-      args: A
-    ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'updateMany'>, ${errorTypeFor("updateMany")}>
+  updateMany: <A extends ${argsType("updateMany")}>(
+    args: A
+  ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'updateMany'>, ${errorTypeFor("updateMany")}, R>
 
-    updateManyAndReturn: <A extends ${argsType("updateManyAndReturn")}>(
-      args: A
-    ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'updateManyAndReturn'>, ${errorTypeFor("updateManyAndReturn")}>
+  updateManyAndReturn: <A extends ${argsType("updateManyAndReturn")}>(
+    args: A
+  ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'updateManyAndReturn'>, ${errorTypeFor("updateManyAndReturn")}, R>
 
-    upsert: <A extends ${argsType("upsert")}>(
-      args: A
-    ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'upsert'>, ${errorTypeFor("upsert")}>
+  upsert: <A extends ${argsType("upsert")}>(
+    args: A
+  ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'upsert'>, ${errorTypeFor("upsert")}, R>
 
-    count: <A extends ${argsType("count")}>(
-      args?: A
-    ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'count'>, ${errorTypeFor("count")}>
+  count: <A extends ${argsType("count")}>(
+    args?: A
+  ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'count'>, ${errorTypeFor("count")}, R>
 
-    aggregate: <A extends ${argsType("aggregate")}>(
-      args: A
-    ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'aggregate'>, ${errorTypeFor("aggregate")}>
+  aggregate: <A extends ${argsType("aggregate")}>(
+    args: A
+  ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'aggregate'>, ${errorTypeFor("aggregate")}, R>
 
-    groupBy: <A extends ${argsType("groupBy")}>(
-      args: A
-    ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'groupBy'>, ${errorTypeFor("groupBy")}>
-  }`;
+  groupBy: <A extends ${argsType("groupBy")}>(
+    args: A
+  ) => Effect.Effect<PrismaNamespace.Result<${delegate}, A, 'groupBy'>, ${errorTypeFor("groupBy")}, R>
+}`;
 		})
 		.join("\n\n");
 
-	return `/**
+	return `${modelInterfaces}
+
+/**
+ * The model operations of the service. With R = PrismaTransactionClientService
+ * they can only run inside a transaction (see IPrismaService.tx).
+ */
+interface PrismaModelOperations<R = never> {
+${models.map((model) => `  ${toCamelCase(model.name)}: ${model.name}Operations<R>`).join("\n")}
+}
+
+/**
  * Interface defining all Prisma operations with explicit types.
  * This provides a type contract that the service implementation must satisfy.
  */
-export interface IPrismaService {
+export interface IPrismaService extends PrismaModelOperations {
   client: BasePrismaClient
+
+  /**
+   * The model operations, requiring a transaction: their effects need
+   * PrismaTransactionClientService, so running them outside \`$transaction\`
+   * is a compile error instead of a silent fallback to the root client.
+   *
+   * @example
+   * const transfer = (from: number, to: number, amount: number) =>
+   *   Effect.gen(function* () {
+   *     const prisma = yield* Prisma
+   *     yield* prisma.tx.account.update({ where: { id: from }, data: { balance: { decrement: amount } } })
+   *     yield* prisma.tx.account.update({ where: { id: to }, data: { balance: { increment: amount } } })
+   *   })
+   *
+   * yield* prisma.$transaction(transfer(1, 2, 100)) // transfer(1, 2, 100) alone does not compile
+   */
+  tx: PrismaModelOperations<PrismaTransactionClientService>
+
   // Transaction operations
   $transaction: <R, E, A>(
     effect: Effect.Effect<A, E, R>
-  ) => Effect.Effect<A, E | ${errorType}, Exclude<R, PrismaTransactionClientService>>
+  ) => Effect.Effect<A, E | ${errorType}, Exclude<R, PrismaTransactionClientService | PrismaTransactionInfo>>
 
   $transactionWith: <R, E, A>(
     effect: Effect.Effect<A, E, R>,
     options: TransactionOptions
-  ) => Effect.Effect<A, E | ${errorType}, R>
+  ) => Effect.Effect<A, E | ${errorType}${conflictError}, Exclude<R, PrismaTransactionClientService | PrismaTransactionInfo>>
+
+  $transactionRetry: <R, E, A, Out, RS>(
+    effect: Effect.Effect<A, E, R>,
+    schedule: Schedule.Schedule<Out, E | ${errorType}${conflictError}, RS>,
+    options?: TransactionOptions
+  ) => Effect.Effect<A, E | ${errorType}${conflictError}, Exclude<R, PrismaTransactionClientService | PrismaTransactionInfo> | RS>
+
+  $batch: <const Operations extends ReadonlyArray<Effect.Effect<any, any, any>>>(
+    operations: Operations,
+    options?: Pick<TransactionOptions, "isolationLevel">
+  ) => Effect.Effect<
+    { -readonly [K in keyof Operations]: Effect.Effect.Success<Operations[K]> },
+    Effect.Effect.Error<Operations[number]>${conflictError},
+    Exclude<Effect.Effect.Context<Operations[number]>, PrismaTransactionClientService>
+  >
+
+  $transactionScoped: (
+    options?: TransactionOptions
+  ) => Effect.Effect<TransactionHandle, ${errorType}, Scope.Scope>
+
+  $saga: <const Steps extends ReadonlyArray<SagaStep<any, any, any, any, any>>>(
+    steps: Steps & SagaSteps<Steps>
+  ) => Effect.Effect<
+    SagaResults<Steps>,
+    | Effect.Effect.Error<Steps[number]["run"]>
+    | ${errorType}
+    | PrismaSagaCompensationError<
+        Effect.Effect.Error<Steps[number]["run"]> | ${errorType},
+        Effect.Effect.Error<ReturnType<Steps[number]["compensate"]>> | ${errorType}
+      >,
+    Exclude<
+      Effect.Effect.Context<Steps[number]["run"]> | Effect.Effect.Context<ReturnType<Steps[number]["compensate"]>>,
+      PrismaTransactionClientService | PrismaTransactionInfo
+    >
+  >
 
   $isolatedTransaction: <R, E, A>(
     effect: Effect.Effect<A, E, R>
-  ) => Effect.Effect<A, E | ${errorType}, R>
+  ) => Effect.Effect<A, E | ${errorType}, Exclude<R, PrismaTransactionClientService | PrismaTransactionInfo>>
 
   $isolatedTransactionWith: <R, E, A>(
     effect: Effect.Effect<A, E, R>,
     options: TransactionOptions
-  ) => Effect.Effect<A, E | ${errorType}, R>
+  ) => Effect.Effect<A, E | ${errorType}, Exclude<R, PrismaTransactionClientService | PrismaTransactionInfo>>
 
   // Raw SQL operations
   $executeRaw: (
@@ -385,9 +747,6 @@ export interface IPrismaService {
     query: string,
     ...values: any[]
   ) => Effect.Effect<T, ${errorType}>
-
-  // Model operations
-${modelInterfaces}
 }
 `;
 }
@@ -396,11 +755,1136 @@ function capitalize(str: string): string {
 	return str.charAt(0).toUpperCase() + str.slice(1);
 }
 
+/**
+ * Metadata field of a tagged error: its TypeScript type, its Schema (for the
+ * Schema-based error classes) and its doc comment.
+ */
+type ErrorField = { name: string; type: string; schema: string; doc: string };
+
+const optionalString = (name: string, doc: string): ErrorField => ({
+	name,
+	type: "string | undefined",
+	schema: "Schema.UndefinedOr(Schema.String)",
+	doc,
+});
+
+// A known request error class of the error table
+type KnownErrorClass = {
+	className: string;
+	codes: string[];
+	meta?: string;
+	fields?: ErrorField[];
+	status: number;
+};
+
+/**
+ * Known request errors, in error code order: the tagged class, the Prisma error
+ * codes that map to it, the metadata helper spread into its constructor, the
+ * metadata fields it declares and its HTTP status for HttpApi errors.
+ */
+const knownErrorClasses: KnownErrorClass[] = [
+	{
+		className: "PrismaDatabaseUnavailableError",
+		codes: ["P1001", "P1002", "P1008", "P1017"],
+		status: 503,
+	},
+	{
+		className: "PrismaValueTooLongError",
+		codes: ["P2000"],
+		meta: "columnMeta(error)",
+		fields: [
+			optionalString(
+				"column",
+				"Column whose value is too long, when the database reports it",
+			),
+		],
+		status: 400,
+	},
+	{
+		className: "PrismaUniqueConstraintError",
+		codes: ["P2002"],
+		meta: "uniqueConstraintMeta(error, model)",
+		fields: [
+			{
+				name: "fields",
+				type: "Fields | undefined",
+				schema: "Schema.UndefinedOr(Schema.Array(Schema.String))",
+				doc: "Fields of the violated unique key (typed per model, e.g. `UserUniqueFields`), undefined when the reported fields match none of the model's keys",
+			},
+			{
+				name: "reportedFields",
+				type: "ReadonlyArray<string>",
+				schema: "Schema.Array(Schema.String)",
+				doc: "Fields or columns of the violated unique key as the database reported them",
+			},
+			optionalString(
+				"constraint",
+				"Name of the violated unique index, when the database reports it",
+			),
+		],
+		status: 409,
+	},
+	{
+		className: "PrismaForeignKeyConstraintError",
+		codes: ["P2003"],
+		meta: "foreignKeyMeta(error)",
+		fields: [
+			optionalString(
+				"fieldName",
+				"Field (or constraint name) of the violated foreign key, when the database reports it",
+			),
+		],
+		status: 409,
+	},
+	{
+		className: "PrismaDbConstraintError",
+		codes: ["P2004"],
+		meta: "dbConstraintMeta(error)",
+		fields: [
+			optionalString(
+				"constraint",
+				"Violated constraint, when the database reports it",
+			),
+		],
+		status: 409,
+	},
+	{
+		className: "PrismaInputValidationError",
+		codes: ["P2005", "P2006", "P2007", "P2019"],
+		status: 400,
+	},
+	{ className: "PrismaRawQueryError", codes: ["P2010"], status: 500 },
+	{
+		className: "PrismaMissingRequiredValueError",
+		codes: ["P2011", "P2012"],
+		meta: "columnMeta(error)",
+		fields: [
+			optionalString(
+				"column",
+				"Column that received a null value, when the database reports it",
+			),
+		],
+		status: 400,
+	},
+	{
+		className: "PrismaRelationViolationError",
+		codes: ["P2014", "P2017"],
+		status: 409,
+	},
+	{
+		className: "PrismaRelatedRecordNotFoundError",
+		codes: ["P2015", "P2018"],
+		status: 404,
+	},
+	{
+		className: "PrismaValueOutOfRangeError",
+		codes: ["P2020", "P2033"],
+		status: 400,
+	},
+	{
+		className: "PrismaSchemaMismatchError",
+		codes: ["P2021", "P2022", "P2030"],
+		meta: "schemaMeta(error)",
+		fields: [
+			optionalString(
+				"table",
+				"Table missing from the database, when the database reports it",
+			),
+			optionalString(
+				"column",
+				"Column missing from the database, when the database reports it",
+			),
+		],
+		status: 500,
+	},
+	{
+		className: "PrismaInconsistentColumnDataError",
+		codes: ["P2023"],
+		status: 500,
+	},
+	{
+		className: "PrismaConnectionError",
+		codes: ["P2024", "P2037"],
+		status: 503,
+	},
+	{ className: "PrismaRecordNotFoundError", codes: ["P2025"], status: 404 },
+	{
+		className: "PrismaUnsupportedFeatureError",
+		codes: ["P2026", "P2031"],
+		status: 500,
+	},
+	{ className: "PrismaTransactionApiError", codes: ["P2028"], status: 500 },
+	{
+		className: "PrismaTransactionConflictError",
+		codes: ["P2034"],
+		status: 409,
+	},
+];
+
+// Known request errors any model operation can fail with: the database is
+// unreachable, the schema drifted from the database, stored data does not match
+// its column type, the database lacks a feature, or the transaction is unusable
+const commonErrorClasses = [
+	"PrismaDatabaseUnavailableError",
+	"PrismaSchemaMismatchError",
+	"PrismaInconsistentColumnDataError",
+	"PrismaUnsupportedFeatureError",
+	"PrismaTransactionApiError",
+];
+
+// Known request errors each operation category can fail with
+const operationErrorClasses: Record<string, string[]> = {
+	PrismaCreateError: [
+		"PrismaValueTooLongError",
+		"PrismaUniqueConstraintError",
+		"PrismaForeignKeyConstraintError",
+		"PrismaDbConstraintError",
+		"PrismaInputValidationError",
+		"PrismaMissingRequiredValueError",
+		"PrismaRelatedRecordNotFoundError",
+		"PrismaValueOutOfRangeError",
+		"PrismaConnectionError",
+		"PrismaTransactionConflictError",
+		...commonErrorClasses,
+	],
+	PrismaUpdateError: [
+		"PrismaValueTooLongError",
+		"PrismaUniqueConstraintError",
+		"PrismaForeignKeyConstraintError",
+		"PrismaDbConstraintError",
+		"PrismaInputValidationError",
+		"PrismaMissingRequiredValueError",
+		"PrismaRelationViolationError",
+		"PrismaRelatedRecordNotFoundError",
+		"PrismaValueOutOfRangeError",
+		"PrismaConnectionError",
+		"PrismaRecordNotFoundError",
+		"PrismaTransactionConflictError",
+		...commonErrorClasses,
+	],
+	PrismaDeleteError: [
+		"PrismaForeignKeyConstraintError",
+		"PrismaRelationViolationError",
+		"PrismaValueOutOfRangeError",
+		"PrismaConnectionError",
+		"PrismaRecordNotFoundError",
+		"PrismaTransactionConflictError",
+		...commonErrorClasses,
+	],
+	PrismaFindOrThrowError: [
+		"PrismaValueOutOfRangeError",
+		"PrismaConnectionError",
+		"PrismaRecordNotFoundError",
+		...commonErrorClasses,
+	],
+	PrismaFindError: [
+		"PrismaValueOutOfRangeError",
+		"PrismaConnectionError",
+		...commonErrorClasses,
+	],
+	PrismaDeleteManyError: [
+		"PrismaForeignKeyConstraintError",
+		"PrismaRelationViolationError",
+		"PrismaValueOutOfRangeError",
+		"PrismaConnectionError",
+		"PrismaTransactionConflictError",
+		...commonErrorClasses,
+	],
+	PrismaUpdateManyError: [
+		"PrismaValueTooLongError",
+		"PrismaUniqueConstraintError",
+		"PrismaForeignKeyConstraintError",
+		"PrismaDbConstraintError",
+		"PrismaInputValidationError",
+		"PrismaMissingRequiredValueError",
+		"PrismaValueOutOfRangeError",
+		"PrismaConnectionError",
+		"PrismaTransactionConflictError",
+		...commonErrorClasses,
+	],
+	PrismaError: knownErrorClasses.map((c) => c.className),
+};
+
+// Error categories of each model operation
+const operationCategories: Record<string, string> = {
+	findUnique: "PrismaFindError",
+	findUniqueOrThrow: "PrismaFindOrThrowError",
+	findFirst: "PrismaFindError",
+	findFirstOrThrow: "PrismaFindOrThrowError",
+	findMany: "PrismaFindError",
+	create: "PrismaCreateError",
+	createMany: "PrismaCreateError",
+	createManyAndReturn: "PrismaCreateError",
+	delete: "PrismaDeleteError",
+	update: "PrismaUpdateError",
+	deleteMany: "PrismaDeleteManyError",
+	updateMany: "PrismaUpdateManyError",
+	updateManyAndReturn: "PrismaUpdateManyError",
+	upsert: "PrismaUpdateError",
+	count: "PrismaFindError",
+	aggregate: "PrismaFindError",
+	groupBy: "PrismaFindError",
+};
+
+// Write categories that get a per-model union (e.g. UserCreateError) narrowed
+// to what the model's datamodel allows
+const modelErrorUnions = [
+	"PrismaCreateError",
+	"PrismaUpdateError",
+	"PrismaUpdateManyError",
+	"PrismaDeleteError",
+	"PrismaDeleteManyError",
+];
+
+// Errors that need a relation on the model: P2003, P2014, P2015/P2018
+const relationErrorClasses = [
+	"PrismaForeignKeyConstraintError",
+	"PrismaRelationViolationError",
+	"PrismaRelatedRecordNotFoundError",
+];
+
+/**
+ * Known request error classes and the classes each operation category can fail
+ * with, after the error code overrides of the `errorCodes` file are applied.
+ */
+type ErrorTable = {
+	knownErrorClasses: KnownErrorClass[];
+	operationErrorClasses: Record<string, string[]>;
+};
+
+// Override of an error code: keep it as a defect, or map it to a tagged class
+// (an existing one, or a new one declared with its HTTP status)
+type ErrorCodeOverride = "defect" | { className: string; status: number };
+
+/**
+ * Read and validate the error code overrides of the `errorCodes` file. A class
+ * name that is not a known request error class declares a new class, with HTTP
+ * status 500 unless the object form gives one.
+ */
+async function readErrorCodeOverrides(
+	filePath: string,
+): Promise<Record<string, ErrorCodeOverride>> {
+	let raw: unknown;
+	try {
+		raw = JSON.parse(await fs.readFile(filePath, "utf8"));
+	} catch (error) {
+		throw new Error(`Failed to read errorCodes file "${filePath}": ${error}`);
+	}
+	if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+		throw new Error(
+			`Invalid errorCodes file "${filePath}": expected an object of error codes`,
+		);
+	}
+
+	// Names the generated module already uses for other types
+	const reserved = [
+		...clientErrorClasses.map((c) => c.className),
+		...transactionErrorClasses.map((c) => c.className),
+		...Object.keys(operationErrorClasses),
+		...errorCategories.map((category) => category.union),
+		"PrismaClientError",
+		"PrismaSagaCompensationError",
+		"PrismaPartialCommitError",
+	];
+	const overrides: Record<string, ErrorCodeOverride> = {};
+	for (const [code, value] of Object.entries(raw)) {
+		if (!/^P\d{4}$/.test(code)) {
+			throw new Error(
+				`Invalid errorCodes entry: "${code}". Expected a Prisma error code, e.g. "P2002"`,
+			);
+		}
+		if (value === "defect") {
+			overrides[code] = "defect";
+			continue;
+		}
+		const { className, status } =
+			typeof value === "string"
+				? { className: value, status: undefined }
+				: ((value ?? {}) as { className?: unknown; status?: unknown });
+		if (
+			typeof className !== "string" ||
+			!/^[A-Z][A-Za-z0-9]*$/.test(className) ||
+			reserved.includes(className)
+		) {
+			throw new Error(
+				`Invalid errorCodes entry for ${code}: expected "defect", a class name or { "className": ..., "status": ... }`,
+			);
+		}
+		if (
+			status !== undefined &&
+			!(
+				Number.isInteger(status) &&
+				Number(status) >= 400 &&
+				Number(status) < 600
+			)
+		) {
+			throw new Error(
+				`Invalid errorCodes status for ${code}: expected an HTTP error status, e.g. 502`,
+			);
+		}
+		const known = knownErrorClasses.find((c) => c.className === className);
+		overrides[code] = {
+			className,
+			status: known ? known.status : ((status as number | undefined) ?? 500),
+		};
+	}
+	return overrides;
+}
+
+/**
+ * Apply error code overrides to the default tables. A code can occur in the
+ * categories of its default class (any category for codes without one), so a
+ * class belongs to every category one of its codes can occur in. Classes left
+ * without codes are dropped.
+ */
+function resolveErrorTable(
+	overrides: Record<string, ErrorCodeOverride>,
+): ErrorTable {
+	const categories = Object.keys(operationErrorClasses).filter(
+		(category) => category !== "PrismaError",
+	);
+	const codeCategories = (code: string) => {
+		const defaultClass = knownErrorClasses.find((c) => c.codes.includes(code));
+		return defaultClass
+			? categories.filter((category) =>
+					operationErrorClasses[category]?.includes(defaultClass.className),
+				)
+			: categories;
+	};
+
+	const classes: KnownErrorClass[] = knownErrorClasses.map((c) => ({
+		...c,
+		codes: c.codes.filter((code) => !(code in overrides)),
+	}));
+	for (const [code, override] of Object.entries(overrides)) {
+		if (override === "defect") continue;
+		const existing = classes.find((c) => c.className === override.className);
+		if (existing) {
+			existing.codes.push(code);
+		} else {
+			classes.push({ ...override, codes: [code] });
+		}
+	}
+	const known = classes.filter((c) => c.codes.length > 0);
+
+	// Keep the default order, then append classes the overrides brought in
+	const operations = Object.fromEntries(
+		categories.map((category) => {
+			const members = known
+				.filter((c) =>
+					c.codes.some((code) => codeCategories(code).includes(category)),
+				)
+				.map((c) => c.className);
+			const defaults = (operationErrorClasses[category] ?? []).filter(
+				(className) => members.includes(className),
+			);
+			return [
+				category,
+				[...defaults, ...members.filter((m) => !defaults.includes(m))],
+			];
+		}),
+	);
+
+	return {
+		knownErrorClasses: known,
+		operationErrorClasses: {
+			...operations,
+			PrismaError: known.map((c) => c.className),
+		},
+	};
+}
+
+type UniqueKey = { fields: string[]; columns: string[]; constraint: string };
+
+/**
+ * Collect the unique key sets of a model: its primary key, `@unique` fields and
+ * compound `@@unique` indexes, with their column names and default constraint names.
+ */
+function modelUniqueKeys(model: DMMF.Model): UniqueKey[] {
+	const table = model.dbName ?? model.name;
+	const columnOf = (fieldName: string) =>
+		model.fields.find((f) => f.name === fieldName)?.dbName ?? fieldName;
+
+	const keys: UniqueKey[] = [];
+	const add = (fields: readonly string[], constraint: string) => {
+		if (keys.some((k) => k.fields.join(",") === fields.join(","))) return;
+		keys.push({
+			fields: [...fields],
+			columns: fields.map(columnOf),
+			constraint,
+		});
+	};
+
+	const idFields = model.primaryKey
+		? model.primaryKey.fields
+		: model.fields.filter((f) => f.isId).map((f) => f.name);
+	if (idFields.length > 0) add(idFields, `${table}_pkey`);
+	for (const field of model.fields) {
+		if (field.isUnique) {
+			add([field.name], `${table}_${columnOf(field.name)}_key`);
+		}
+	}
+	for (const index of model.uniqueIndexes) {
+		add(index.fields, `${table}_${index.fields.map(columnOf).join("_")}_key`);
+	}
+	return keys;
+}
+
+/**
+ * Known request errors a model can fail with in an operation category. Relation
+ * errors need a relation field on the model. P2002 is always possible, as every
+ * model has a primary key or unique key.
+ */
+function modelErrorClasses(
+	model: DMMF.Model,
+	category: string,
+	errorTable: ErrorTable,
+): string[] {
+	const hasRelations = model.fields.some((f) => f.kind === "object");
+	return (errorTable.operationErrorClasses[category] ?? []).filter(
+		(className) => hasRelations || !relationErrorClasses.includes(className),
+	);
+}
+
+// Name of a model's error union for a category, e.g. UserCreateError
+function modelErrorUnion(modelName: string, category: string): string {
+	return `${modelName}${category.replace(/^Prisma/, "")}`;
+}
+
+// Whether the datamodel removes errors from a category, so the model needs its own mapper
+function hasNarrowedMapper(
+	model: DMMF.Model,
+	category: string,
+	errorTable: ErrorTable,
+): boolean {
+	return (
+		modelErrorUnions.includes(category) &&
+		modelErrorClasses(model, category, errorTable).length !==
+			(errorTable.operationErrorClasses[category] ?? []).length
+	);
+}
+
+/**
+ * Whether the errors a category mapper returns for a model need checking
+ * against the model's union: it leaves out some classes, or types the fields
+ * of PrismaUniqueConstraintError with the model's unique keys.
+ */
+function hasModelErrorNarrowing(
+	model: DMMF.Model,
+	category: string,
+	errorTable: ErrorTable,
+): boolean {
+	return (
+		hasNarrowedMapper(model, category, errorTable) ||
+		(modelErrorUnions.includes(category) &&
+			(errorTable.operationErrorClasses[category] ?? []).includes(
+				"PrismaUniqueConstraintError",
+			))
+	);
+}
+
+function errorUnionMembers(classNames: string[], uniqueFields?: string) {
+	return classNames
+		.map((className) =>
+			className === "PrismaUniqueConstraintError" && uniqueFields
+				? `  | ${className}<${uniqueFields}>`
+				: `  | ${className}`,
+		)
+		.concat("  | PrismaClientError")
+		.join("\n");
+}
+
+/**
+ * Generate the operation category unions (PrismaCreateError, ...) and PrismaError,
+ * which also includes the error of transactions that fail to start.
+ */
+function generateErrorUnions(errorTable: ErrorTable): string {
+	return Object.entries(errorTable.operationErrorClasses)
+		.map(
+			([category, classNames]) =>
+				`export type ${category} =\n${errorUnionMembers(
+					category === "PrismaError"
+						? [...classNames, "PrismaTransactionStartError"]
+						: classNames,
+				)}`,
+		)
+		.join("\n\n");
+}
+
+/**
+ * Generate per-model error types: the model's unique key sets and its write
+ * operation unions, narrowed to the errors its relations and unique keys allow.
+ */
+function generateModelErrorTypes(
+	models: DMMF.Model[],
+	errorTable: ErrorTable,
+): string {
+	return models
+		.map((model) => {
+			const keys = modelUniqueKeys(model);
+			const uniqueFields =
+				keys.length > 0
+					? keys
+							.map((k) => `[${k.fields.map((f) => `"${f}"`).join(", ")}]`)
+							.join(" | ")
+					: "ReadonlyArray<string>";
+
+			const unions = modelErrorUnions
+				.map(
+					(category) =>
+						`export type ${modelErrorUnion(model.name, category)} =\n${errorUnionMembers(
+							modelErrorClasses(model, category, errorTable),
+							`${model.name}UniqueFields`,
+						)}`,
+				)
+				.join("\n\n");
+
+			return `/** Unique key sets of ${model.name}, as reported by PrismaUniqueConstraintError.fields */
+export type ${model.name}UniqueFields = ${uniqueFields}
+
+${unions}`;
+		})
+		.join("\n\n");
+}
+
+function generateMapper(
+	comment: string,
+	name: string,
+	returnType: string,
+	classNames: string[],
+	errorTable: ErrorTable,
+	errorClasses: ErrorClassesMode,
+	includeArgs: boolean,
+	uniqueFields?: string,
+): string {
+	// Schema errors carry the code and message, as the cause is not serialized
+	const payload = `${
+		errorClasses === "schema"
+			? ", code: knownError.code, message: knownError.message"
+			: ""
+	}${includeArgs ? ", args: errorArgs(args)" : ""}`;
+	const cases = errorTable.knownErrorClasses
+		.filter((c) => classNames.includes(c.className))
+		.map((c) => {
+			const typed =
+				c.className === "PrismaUniqueConstraintError" && uniqueFields;
+			const meta = typed
+				? `uniqueConstraintMeta<${uniqueFields}>(error, model)`
+				: c.meta;
+			const labels = c.codes.map((code) => `      case "${code}":`).join("\n");
+			return `${labels}
+        return new ${c.className}${typed ? `<${uniqueFields}>` : ""}({ cause: error, operation, model${payload}${meta ? `, ...${meta}` : ""} });`;
+		})
+		.join("\n");
+	// P2028 also reports operations on a transaction that Prisma closed after its timeout
+	const expired = errorTable.knownErrorClasses.some(
+		(c) => classNames.includes(c.className) && c.codes.includes("P2028"),
+	)
+		? `
+    if (isExpiredTransaction(knownError)) {
+      return new PrismaTransactionExpiredError({ cause: error, operation, model${errorClasses === "schema" ? ", message: knownError.message" : ""}${includeArgs ? ", args: errorArgs(args)" : ""} });
+    }`
+		: "";
+
+	return `// ${comment}
+const ${name} = (error: unknown, operation: string, model: string${includeArgs ? ", args?: unknown" : ""}): ${returnType} => {
+  if (isPrismaClientKnownRequestError(error)) {
+    const knownError = error;${expired}
+    switch (knownError.code) {
+${cases}
+    }
+  }
+  return mapClientError(error, operation, model${includeArgs ? ", args" : ""});
+}`;
+}
+
+// Checks mapped errors against a model's union: the classes the union leaves
+// out, and the unique key fields it types PrismaUniqueConstraintError with
+const modelErrorChecks = (ruledOut: boolean, uniqueFields: boolean) => `${
+	ruledOut
+		? `const isNoneOf = <Mapped extends { readonly _tag: string }, Tag extends string>(
+  error: Mapped,
+  classes: ReadonlyArray<Tag>
+): error is Exclude<Mapped, { readonly _tag: Tag }> => !(classes as ReadonlyArray<string>).includes(error._tag)
+`
+		: ""
+}${
+	uniqueFields
+		? `
+// Whether the fields of a unique constraint error are one of the model's unique keys
+const hasModelUniqueFields = <Fields extends ReadonlyArray<string>>(
+  error: PrismaUniqueConstraintError,
+  model: string
+): error is PrismaUniqueConstraintError<Fields> => {
+  const fields = error.fields
+  return (
+    fields === undefined ||
+    (uniqueKeys[model] ?? []).some(
+      (key) => key.fields.length === fields.length && key.fields.every((field, i) => field === fields[i])
+    )
+  )
+}
+`
+		: ""
+}
+// Thrown for a mapped error that is not part of the model's union, which only
+// an error mapper given to PrismaErrorMapper can return. The defect keeps the
+// mapped error, and with it the Prisma error, as its cause.
+const unexpectedModelError = (error: { readonly _tag: string }, operation: string, model: string): never => {
+  throw new Error(\`\${operation} on \${model} cannot fail with \${error._tag}, which the error mapper returned\`, { cause: error })
+}`;
+
+/**
+ * Generate the error mappers: the generic mapError, one mapper per operation
+ * category and a per-model mapper wherever the datamodel narrows a category.
+ */
+function generateErrorMappers(
+	models: DMMF.Model[],
+	errorTable: ErrorTable,
+	errorClasses: ErrorClassesMode,
+	includeArgs: boolean,
+): string {
+	const operationsOf = (category: string) =>
+		Object.keys(operationCategories)
+			.filter((op) => operationCategories[op] === category)
+			.join(", ");
+
+	const categoryMappers = Object.entries(errorTable.operationErrorClasses)
+		.filter(([category]) => category !== "PrismaError")
+		.map(([category, classNames]) =>
+			generateMapper(
+				operationsOf(category),
+				`map${category.replace(/^Prisma/, "")}`,
+				category,
+				classNames,
+				errorTable,
+				errorClasses,
+				includeArgs,
+			),
+		);
+
+	const modelMappers = models.flatMap((model) =>
+		modelErrorUnions
+			.filter((category) => hasNarrowedMapper(model, category, errorTable))
+			.map((category) =>
+				generateMapper(
+					`${model.name}: ${operationsOf(category)}`,
+					`map${modelErrorUnion(model.name, category)}`,
+					modelErrorUnion(model.name, category),
+					modelErrorClasses(model, category, errorTable),
+					errorTable,
+					errorClasses,
+					includeArgs,
+					`${model.name}UniqueFields`,
+				),
+			),
+	);
+
+	const uniqueFields = modelErrorUnions.some((category) =>
+		(errorTable.operationErrorClasses[category] ?? []).includes(
+			"PrismaUniqueConstraintError",
+		),
+	);
+	const ruledOut = models.some((model) =>
+		modelErrorUnions.some((category) =>
+			hasNarrowedMapper(model, category, errorTable),
+		),
+	);
+	const modelErrorNarrowing = models.flatMap((model) =>
+		modelErrorUnions
+			.filter((category) => hasModelErrorNarrowing(model, category, errorTable))
+			.map((category) => {
+				const union = modelErrorUnion(model.name, category);
+				const ruledOutClasses = (
+					errorTable.operationErrorClasses[category] ?? []
+				).filter(
+					(className) =>
+						!modelErrorClasses(model, category, errorTable).includes(className),
+				);
+				const unique = (
+					errorTable.operationErrorClasses[category] ?? []
+				).includes("PrismaUniqueConstraintError")
+					? `
+  if (error._tag === "PrismaUniqueConstraintError") {
+    return hasModelUniqueFields<${model.name}UniqueFields>(error, "${model.name}")
+      ? error
+      : unexpectedModelError(error, operation, "${model.name}")
+  }`
+					: "";
+				const rest =
+					ruledOutClasses.length > 0
+						? `isNoneOf(error, [${ruledOutClasses.map((className) => `"${className}"`).join(", ")}] as const)
+    ? error
+    : unexpectedModelError(error, operation, "${model.name}")`
+						: "error";
+				return `const to${union} = (error: ${category}, operation: string): ${union} => {${unique}
+  return ${rest}
+}`;
+			}),
+	);
+
+	return [
+		generateMapper(
+			"Generic mapper for raw operations and fallback",
+			"mapError",
+			"PrismaError",
+			errorTable.operationErrorClasses.PrismaError ?? [],
+			errorTable,
+			errorClasses,
+			includeArgs,
+		),
+		"// Specific mappers to narrow error types per operation",
+		...categoryMappers,
+		...(modelMappers.length > 0
+			? [
+					"// Mappers for models whose datamodel rules out some errors",
+					...modelMappers,
+				]
+			: []),
+		...(modelErrorNarrowing.length > 0
+			? [
+					"// Narrow the errors of category mappers to each model's unions",
+					modelErrorChecks(ruledOut, uniqueFields),
+					...modelErrorNarrowing,
+				]
+			: []),
+	].join("\n\n");
+}
+
+/**
+ * Generate the category mappers of custom error mode. Each category uses the
+ * custom module's `map<Category>` export when there is one, else mapPrismaError,
+ * and its error type is that mapper's return type.
+ */
+function generateCustomErrorMappers(): string {
+	const categories = Object.keys(operationErrorClasses).filter(
+		(category) => category !== "PrismaError",
+	);
+	const mappers = categories
+		.map((category) => {
+			const mapper = `map${category.replace(/^Prisma/, "")}`;
+			return `export type ${category} = ReturnType<CategoryMapper<"${mapper}">>
+const ${mapper} = categoryMapper("${mapper}")`;
+		})
+		.join("\n\n");
+
+	return `type ErrorMapper = (error: unknown, operation: string, model: string) => unknown
+
+type CategoryMapper<Name extends string> = Name extends keyof typeof CustomErrors
+  ? (typeof CustomErrors)[Name] extends ErrorMapper
+    ? (typeof CustomErrors)[Name]
+    : typeof mapPrismaError
+  : typeof mapPrismaError
+
+const categoryMapper = <Name extends string>(name: Name): CategoryMapper<Name> =>
+  ((CustomErrors as Record<string, unknown>)[name] ?? mapPrismaError) as CategoryMapper<Name>
+
+${mappers}`;
+}
+
+/**
+ * Generate the PrismaErrorMapper service: the mappers interface, the generated
+ * default mappers and the Context tag `Prisma.make` resolves them from.
+ */
+function generateErrorMapperService(
+	models: DMMF.Model[],
+	customError: CustomErrorConfig,
+	errorTable: ErrorTable,
+	includeArgs: boolean,
+	contextTagPrefix: string,
+): string {
+	const errorType = customError ? customError.className : "PrismaError";
+	const categories = Object.keys(operationErrorClasses).filter(
+		(category) => category !== "PrismaError",
+	);
+	const mapperName = (category: string) =>
+		`map${category.replace(/^Prisma/, "")}`;
+
+	const members = categories
+		.map(
+			(category) =>
+				`  readonly ${mapperName(category)}: PrismaErrorMapperFn<${category}>`,
+		)
+		.join("\n");
+
+	// Default mode: categories some models narrow dispatch to those models' mappers
+	const defaults = categories
+		.map((category) => {
+			const narrowed = customError
+				? []
+				: models.filter((model) =>
+						hasNarrowedMapper(model, category, errorTable),
+					);
+			if (narrowed.length === 0) return `  ${mapperName(category)},`;
+			const byModelEntries = narrowed
+				.map(
+					(model) =>
+						`${model.name}: map${modelErrorUnion(model.name, category)}`,
+				)
+				.join(", ");
+			return `  ${mapperName(category)}: byModel(${mapperName(category)}, { ${byModelEntries} }),`;
+		})
+		.join("\n");
+	const byModel = defaults.includes("byModel(")
+		? `
+// Use a model's own mapper when it has one, else the category mapper
+const byModel =
+  <E>(fallback: PrismaErrorMapperFn<E>, mappers: Record<string, PrismaErrorMapperFn<E>>): PrismaErrorMapperFn<E> =>
+  (error, operation, model${includeArgs ? ", args" : ""}) =>
+    (mappers[model] ?? fallback)(error, operation, model${includeArgs ? ", args" : ""})
+`
+		: "";
+
+	return `/** Maps an error thrown by the Prisma client to the error type of an operation */
+export type PrismaErrorMapperFn<E> = (error: unknown, operation: string, model: string${includeArgs ? ", args?: unknown" : ""}) => E
+
+/**
+ * Error mappers used by the Prisma service: \`mapError\` for raw queries and
+ * transactions, and one mapper per model operation category.
+ */
+export interface PrismaErrorMappers {
+  readonly mapError: PrismaErrorMapperFn<${errorType}>
+${members}
+}
+${byModel}
+/** The generated error mappers, used when no PrismaErrorMapper is provided */
+export const defaultErrorMappers: PrismaErrorMappers = {
+  mapError,
+${defaults}
+}
+
+/**
+ * Error mappers resolved by \`Prisma.make\` when the service is constructed.
+ * Provide it to change how errors are mapped without regenerating the client,
+ * e.g. differently per app or per test. Without it, \`defaultErrorMappers\` are used.
+ * A write operation of a model whose datamodel rules out some errors dies when
+ * its mapper returns one of those.
+ *
+ * @example
+ * const ErrorMapperLayer = PrismaErrorMapper.layer({
+ *   mapCreateError: (error, operation, model) => {
+ *     const mapped = defaultErrorMappers.mapCreateError(error, operation, model)
+ *     console.error(\`[\${requestId}] \${operation} on \${model} failed\`, mapped)
+ *     return mapped
+ *   }
+ * })
+ *
+ * const MainLayer = Prisma.layer({ adapter }).pipe(Layer.provide(ErrorMapperLayer))
+ */
+export class PrismaErrorMapper extends Context.Tag(${contextTagKey(contextTagPrefix, "PrismaErrorMapper")})<
+  PrismaErrorMapper,
+  PrismaErrorMappers
+>() {
+  /** The generated default mappers */
+  static Default: Layer.Layer<PrismaErrorMapper> = Layer.succeed(PrismaErrorMapper, defaultErrorMappers)
+
+  /** Provide some mappers; the ones left out use \`defaultErrorMappers\` */
+  static layer = (mappers: Partial<PrismaErrorMappers>): Layer.Layer<PrismaErrorMapper> =>
+    Layer.succeed(PrismaErrorMapper, { ...defaultErrorMappers, ...mappers })
+}`;
+}
+
+/**
+ * Generate the runtime table of unique keys per model, used to resolve which key
+ * a P2002 violated from the columns or index name the database reports.
+ */
+function generateUniqueKeysTable(models: DMMF.Model[]): string {
+	const entries = models
+		.map((model) => {
+			const keys = modelUniqueKeys(model)
+				.map(
+					(k) =>
+						`    { fields: ${JSON.stringify(k.fields)}, columns: ${JSON.stringify(k.columns)}, constraint: ${JSON.stringify(k.constraint)} }`,
+				)
+				.join(",\n");
+			return `  ${model.name}: [\n${keys}\n  ]`;
+		})
+		.join(",\n");
+
+	return `// Unique key sets per model (schema field names, column names, default constraint name)
+const uniqueKeys: Record<
+  string,
+  ReadonlyArray<{ fields: ReadonlyArray<string>; columns: ReadonlyArray<string>; constraint: string }>
+> = {
+${entries}
+}`;
+}
+
+// Metadata helpers each helper depends on
+const errorMetaDeps: Record<string, string[]> = {
+	adapterCause: ["errorMeta", "DriverAdapterErrorCause"],
+	adapterFields: ["adapterCause"],
+	adapterIndex: ["adapterCause"],
+	uniqueConstraintMeta: [
+		"errorMeta",
+		"adapterFields",
+		"adapterIndex",
+		"stringOrUndefined",
+		"sameMembers",
+		"uniqueKeys",
+	],
+	foreignKeyMeta: [
+		"errorMeta",
+		"adapterFields",
+		"adapterIndex",
+		"stringOrUndefined",
+	],
+	columnMeta: [
+		"errorMeta",
+		"adapterCause",
+		"adapterFields",
+		"stringOrUndefined",
+	],
+	dbConstraintMeta: ["errorMeta", "adapterIndex", "stringOrUndefined"],
+	schemaMeta: ["errorMeta", "adapterCause", "stringOrUndefined"],
+};
+
+/**
+ * Generate the error metadata normalization helpers. Only the helpers the
+ * classes of the error table use are emitted, as error code overrides can
+ * leave a class (and so its metadata helper) without codes.
+ */
+function generateErrorMeta(
+	models: DMMF.Model[],
+	errorTable: ErrorTable,
+): string {
+	const used = new Set<string>();
+	const use = (name: string) => {
+		if (used.has(name)) return;
+		used.add(name);
+		for (const dep of errorMetaDeps[name] ?? []) use(dep);
+	};
+	for (const c of errorTable.knownErrorClasses) {
+		if (c.meta) use(c.meta.slice(0, c.meta.indexOf("(")));
+	}
+
+	const helpers: Array<{ name: string; code: string }> = [
+		{
+			name: "DriverAdapterErrorCause",
+			code: `type DriverAdapterErrorCause = {
+  table?: string
+  column?: string
+  constraint?: { fields: ReadonlyArray<string> } | { index: string } | { foreignKey: {} }
+}`,
+		},
+		{
+			name: "errorMeta",
+			code: `const errorMeta = (error: PrismaNamespace.PrismaClientKnownRequestError): Record<string, unknown> =>
+  (error.meta ?? {}) as Record<string, unknown>`,
+		},
+		{
+			name: "adapterCause",
+			code: `const adapterCause = (error: PrismaNamespace.PrismaClientKnownRequestError): DriverAdapterErrorCause | undefined =>
+  (errorMeta(error).driverAdapterError as { cause?: DriverAdapterErrorCause } | undefined)?.cause`,
+		},
+		{
+			name: "adapterFields",
+			code: `const adapterFields = (error: PrismaNamespace.PrismaClientKnownRequestError): ReadonlyArray<string> | undefined => {
+  const constraint = adapterCause(error)?.constraint
+  return constraint && "fields" in constraint ? constraint.fields : undefined
+}`,
+		},
+		{
+			name: "adapterIndex",
+			code: `const adapterIndex = (error: PrismaNamespace.PrismaClientKnownRequestError): string | undefined => {
+  const constraint = adapterCause(error)?.constraint
+  return constraint && "index" in constraint ? constraint.index : undefined
+}`,
+		},
+		{
+			name: "stringOrUndefined",
+			code: `const stringOrUndefined = (value: unknown): string | undefined =>
+  typeof value === "string" ? value : undefined`,
+		},
+		{
+			name: "sameMembers",
+			code: `const sameMembers = (a: ReadonlyArray<string>, b: ReadonlyArray<string>): boolean =>
+  a.length === b.length && a.every((value) => b.includes(value))`,
+		},
+		{ name: "uniqueKeys", code: generateUniqueKeysTable(models) },
+		{
+			name: "uniqueConstraintMeta",
+			code: `// P2002: \`target\` is a list of fields or columns, or the index name on some databases.
+// Resolved against the model's unique keys so \`fields\` is one of the model's UniqueFields,
+// or undefined when the reported fields match none of them. Without a model (raw
+// queries), \`fields\` is what the database reported.
+const uniqueConstraintMeta = <Fields extends ReadonlyArray<string> = ReadonlyArray<string>>(
+  error: PrismaNamespace.PrismaClientKnownRequestError,
+  model: string
+): { fields: Fields | undefined; reportedFields: ReadonlyArray<string>; constraint: string | undefined } => {
+  const target = errorMeta(error).target
+  const reportedFields = adapterFields(error) ?? (Array.isArray(target) ? target.map(String) : [])
+  const constraint = adapterIndex(error) ?? stringOrUndefined(target)
+  const keys = uniqueKeys[model]
+  // Fields is only narrowed for models, so it is ReadonlyArray<string> here
+  if (!keys) return { fields: reportedFields as Fields, reportedFields, constraint }
+  const key = keys.find(
+    (key) =>
+      key.constraint === constraint ||
+      sameMembers(reportedFields, key.columns) ||
+      sameMembers(reportedFields, key.fields)
+  )
+  // The keys in uniqueKeys[model] are exactly the model's UniqueFields
+  return { fields: key?.fields as Fields | undefined, reportedFields, constraint }
+}`,
+		},
+		{
+			name: "foreignKeyMeta",
+			code: `// P2003
+const foreignKeyMeta = (error: PrismaNamespace.PrismaClientKnownRequestError) => ({
+  fieldName:
+    adapterFields(error)?.[0] ?? adapterIndex(error) ?? stringOrUndefined(errorMeta(error).field_name),
+})`,
+		},
+		{
+			name: "columnMeta",
+			code: `// P2000, P2011, P2012
+const columnMeta = (error: PrismaNamespace.PrismaClientKnownRequestError) => {
+  const meta = errorMeta(error)
+  const constraint = meta.constraint
+  return {
+    column:
+      adapterCause(error)?.column ??
+      adapterFields(error)?.[0] ??
+      stringOrUndefined(meta.column_name) ??
+      (Array.isArray(constraint) ? stringOrUndefined(constraint[0]) : stringOrUndefined(constraint)),
+  }
+}`,
+		},
+		{
+			name: "dbConstraintMeta",
+			code: `// P2004
+const dbConstraintMeta = (error: PrismaNamespace.PrismaClientKnownRequestError) => ({
+  constraint: adapterIndex(error) ?? stringOrUndefined(errorMeta(error).database_error),
+})`,
+		},
+		{
+			name: "schemaMeta",
+			code: `// P2021, P2022, P2030
+const schemaMeta = (error: PrismaNamespace.PrismaClientKnownRequestError) => {
+  const meta = errorMeta(error)
+  return {
+    table: adapterCause(error)?.table ?? stringOrUndefined(meta.table),
+    column: adapterCause(error)?.column ?? stringOrUndefined(meta.column),
+  }
+}`,
+		},
+	];
+	return helpers
+		.filter((helper) => used.has(helper.name))
+		.map((helper) => helper.code)
+		.join("\n\n");
+}
+
 function generateModelOperations(
 	models: DMMF.Model[],
 	customError: CustomErrorConfig,
+	errorTable: ErrorTable,
 	enableTelemetry: boolean,
+	includeArgs: boolean,
 ) {
+	// With errorIncludeArgs the mappers also get the operation arguments
+	const argsParam = includeArgs ? ", args" : "";
 	return models
 		.map((model) => {
 			const modelName = model.name;
@@ -423,12 +1907,26 @@ function generateModelOperations(
 				return " as any";
 			};
 
-			// With custom error: all operations use single error type and mapError
-			// Without custom error: use per-operation error types and mappers
-			const errorType = (opErrorType: string) =>
-				customError ? customError.className : opErrorType;
-			const mapperFn = (defaultMapper: string) =>
-				customError ? "mapError" : defaultMapper;
+			// Errors are mapped by the category mappers the service resolved at
+			// construction (`mappers`). With custom error the category types come
+			// from the custom error module. Without custom error, write operations use
+			// this model's unions: the default mappers dispatch to the model's own
+			// mapper where the datamodel rules out errors, and the result is narrowed
+			// to this model's union by checking its class and unique key fields.
+			const errorType = (category: string) => {
+				if (customError) return category;
+				return modelErrorUnions.includes(category)
+					? modelErrorUnion(modelName, category)
+					: category;
+			};
+			const mapperFn = (category: string) =>
+				`mappers.map${category.replace(/^Prisma/, "")}`;
+			const mapError = (category: string, operation: string) => {
+				const mapped = `${mapperFn(category)}(error, "${operation}", "${modelName}"${argsParam})`;
+				return !customError && hasModelErrorNarrowing(model, category, errorTable)
+					? `to${modelErrorUnion(modelName, category)}(${mapped}, "${operation}")`
+					: mapped;
+			};
 
 			// Telemetry: wrap operations with Effect.fn or Effect.fnUntraced
 			const wrapTelemetry = (name: string, generatorFn: string) =>
@@ -436,159 +1934,173 @@ function generateModelOperations(
 					? `Effect.fn("${name}")(${generatorFn})`
 					: `Effect.fnUntraced(${generatorFn})`;
 
-			// Implementation without explicit types - the IPrismaService interface provides all type checking
+			// Implementation without explicit types - the PrismaModelOperations interface provides all type checking
 			return `    ${modelNameCamel}: {
       findUnique: ${wrapTelemetry(
 				`Prisma.${modelNameCamel}.findUnique`,
 				`function* (args) {
-        const actualClient = yield* clientOrTx(client);
-        return yield* Effect.tryPromise<any, ${errorType("PrismaFindError")}>({
-          try: () => actualClient.${modelNameCamel}.findUnique(args as any)${promiseCast()},
-          catch: (error) => ${mapperFn("mapFindError")}(error, "findUnique", "${modelName}")
-        });
+        return yield* clientOrTx(client, (actualClient) =>
+          Effect.tryPromise<any, ${errorType("PrismaFindError")}>({
+            try: () => actualClient.${modelNameCamel}.findUnique(args as any)${promiseCast()},
+            catch: (error) => ${mapperFn("PrismaFindError")}(error, "findUnique", "${modelName}"${argsParam})
+          })
+        );
       }`,
 			)},
 
       findUniqueOrThrow: ${wrapTelemetry(
 				`Prisma.${modelNameCamel}.findUniqueOrThrow`,
 				`function* (args) {
-        const actualClient = yield* clientOrTx(client);
-        return yield* Effect.tryPromise<any, ${errorType("PrismaFindOrThrowError")}>({
-          try: () => actualClient.${modelNameCamel}.findUniqueOrThrow(args as any)${promiseCast()},
-          catch: (error) => ${mapperFn("mapFindOrThrowError")}(error, "findUniqueOrThrow", "${modelName}")
-        });
+        return yield* clientOrTx(client, (actualClient) =>
+          Effect.tryPromise<any, ${errorType("PrismaFindOrThrowError")}>({
+            try: () => actualClient.${modelNameCamel}.findUniqueOrThrow(args as any)${promiseCast()},
+            catch: (error) => ${mapperFn("PrismaFindOrThrowError")}(error, "findUniqueOrThrow", "${modelName}"${argsParam})
+          })
+        );
       }`,
 			)},
 
       findFirst: ${wrapTelemetry(
 				`Prisma.${modelNameCamel}.findFirst`,
 				`function* (args) {
-        const actualClient = yield* clientOrTx(client);
-        return yield* Effect.tryPromise<any, ${errorType("PrismaFindError")}>({
-          try: () => actualClient.${modelNameCamel}.findFirst(args as any)${promiseCast()},
-          catch: (error) => ${mapperFn("mapFindError")}(error, "findFirst", "${modelName}")
-        });
+        return yield* clientOrTx(client, (actualClient) =>
+          Effect.tryPromise<any, ${errorType("PrismaFindError")}>({
+            try: () => actualClient.${modelNameCamel}.findFirst(args as any)${promiseCast()},
+            catch: (error) => ${mapperFn("PrismaFindError")}(error, "findFirst", "${modelName}"${argsParam})
+          })
+        );
       }`,
 			)},
 
       findFirstOrThrow: ${wrapTelemetry(
 				`Prisma.${modelNameCamel}.findFirstOrThrow`,
 				`function* (args) {
-        const actualClient = yield* clientOrTx(client);
-        return yield* Effect.tryPromise<any, ${errorType("PrismaFindOrThrowError")}>({
-          try: () => actualClient.${modelNameCamel}.findFirstOrThrow(args as any)${promiseCast()},
-          catch: (error) => ${mapperFn("mapFindOrThrowError")}(error, "findFirstOrThrow", "${modelName}")
-        });
+        return yield* clientOrTx(client, (actualClient) =>
+          Effect.tryPromise<any, ${errorType("PrismaFindOrThrowError")}>({
+            try: () => actualClient.${modelNameCamel}.findFirstOrThrow(args as any)${promiseCast()},
+            catch: (error) => ${mapperFn("PrismaFindOrThrowError")}(error, "findFirstOrThrow", "${modelName}"${argsParam})
+          })
+        );
       }`,
 			)},
 
       findMany: ${wrapTelemetry(
 				`Prisma.${modelNameCamel}.findMany`,
 				`function* (args) {
-        const actualClient = yield* clientOrTx(client);
-        return yield* Effect.tryPromise<any, ${errorType("PrismaFindError")}>({
-          try: () => actualClient.${modelNameCamel}.findMany(args as any)${promiseCast()},
-          catch: (error) => ${mapperFn("mapFindError")}(error, "findMany", "${modelName}")
-        });
+        return yield* clientOrTx(client, (actualClient) =>
+          Effect.tryPromise<any, ${errorType("PrismaFindError")}>({
+            try: () => actualClient.${modelNameCamel}.findMany(args as any)${promiseCast()},
+            catch: (error) => ${mapperFn("PrismaFindError")}(error, "findMany", "${modelName}"${argsParam})
+          })
+        );
       }`,
 			)},
 
       create: ${wrapTelemetry(
 				`Prisma.${modelNameCamel}.create`,
 				`function* (args) {
-        const actualClient = yield* clientOrTx(client);
-        return yield* Effect.tryPromise<any, ${errorType("PrismaCreateError")}>({
-          try: () => actualClient.${modelNameCamel}.create(args as any)${promiseCast()},
-          catch: (error) => ${mapperFn("mapCreateError")}(error, "create", "${modelName}")
-        });
+        return yield* clientOrTx(client, (actualClient) =>
+          Effect.tryPromise<any, ${errorType("PrismaCreateError")}>({
+            try: () => actualClient.${modelNameCamel}.create(args as any)${promiseCast()},
+            catch: (error) => ${mapError("PrismaCreateError", "create")}
+          })
+        );
       }`,
 			)},
 
       createMany: ${wrapTelemetry(
 				`Prisma.${modelNameCamel}.createMany`,
 				`function* (args) {
-        const actualClient = yield* clientOrTx(client);
-        return yield* Effect.tryPromise<any, ${errorType("PrismaCreateError")}>({
-          try: () => actualClient.${modelNameCamel}.createMany(args as any),
-          catch: (error) => ${mapperFn("mapCreateError")}(error, "createMany", "${modelName}")
-        });
+        return yield* clientOrTx(client, (actualClient) =>
+          Effect.tryPromise<any, ${errorType("PrismaCreateError")}>({
+            try: () => actualClient.${modelNameCamel}.createMany(args as any),
+            catch: (error) => ${mapError("PrismaCreateError", "createMany")}
+          })
+        );
       }`,
 			)},
 
       createManyAndReturn: ${wrapTelemetry(
 				`Prisma.${modelNameCamel}.createManyAndReturn`,
 				`function* (args) {
-        const actualClient = yield* clientOrTx(client);
-        return yield* Effect.tryPromise<any, ${errorType("PrismaCreateError")}>({
-          try: () => actualClient.${modelNameCamel}.createManyAndReturn(args as any)${promiseCast()},
-          catch: (error) => ${mapperFn("mapCreateError")}(error, "createManyAndReturn", "${modelName}")
-        });
+        return yield* clientOrTx(client, (actualClient) =>
+          Effect.tryPromise<any, ${errorType("PrismaCreateError")}>({
+            try: () => actualClient.${modelNameCamel}.createManyAndReturn(args as any)${promiseCast()},
+            catch: (error) => ${mapError("PrismaCreateError", "createManyAndReturn")}
+          })
+        );
       }`,
 			)},
 
       delete: ${wrapTelemetry(
 				`Prisma.${modelNameCamel}.delete`,
 				`function* (args) {
-        const actualClient = yield* clientOrTx(client);
-        return yield* Effect.tryPromise<any, ${errorType("PrismaDeleteError")}>({
-          try: () => actualClient.${modelNameCamel}.delete(args as any)${promiseCast()},
-          catch: (error) => ${mapperFn("mapDeleteError")}(error, "delete", "${modelName}")
-        });
+        return yield* clientOrTx(client, (actualClient) =>
+          Effect.tryPromise<any, ${errorType("PrismaDeleteError")}>({
+            try: () => actualClient.${modelNameCamel}.delete(args as any)${promiseCast()},
+            catch: (error) => ${mapError("PrismaDeleteError", "delete")}
+          })
+        );
       }`,
 			)},
 
       update: ${wrapTelemetry(
 				`Prisma.${modelNameCamel}.update`,
 				`function* (args) {
-        const actualClient = yield* clientOrTx(client);
-        return yield* Effect.tryPromise<any, ${errorType("PrismaUpdateError")}>({
-          try: () => actualClient.${modelNameCamel}.update(args as any)${promiseCast()},
-          catch: (error) => ${mapperFn("mapUpdateError")}(error, "update", "${modelName}")
-        });
+        return yield* clientOrTx(client, (actualClient) =>
+          Effect.tryPromise<any, ${errorType("PrismaUpdateError")}>({
+            try: () => actualClient.${modelNameCamel}.update(args as any)${promiseCast()},
+            catch: (error) => ${mapError("PrismaUpdateError", "update")}
+          })
+        );
       }`,
 			)},
 
       deleteMany: ${wrapTelemetry(
 				`Prisma.${modelNameCamel}.deleteMany`,
 				`function* (args) {
-        const actualClient = yield* clientOrTx(client);
-        return yield* Effect.tryPromise<any, ${errorType("PrismaDeleteManyError")}>({
-          try: () => actualClient.${modelNameCamel}.deleteMany(args as any),
-          catch: (error) => ${mapperFn("mapDeleteManyError")}(error, "deleteMany", "${modelName}")
-        });
+        return yield* clientOrTx(client, (actualClient) =>
+          Effect.tryPromise<any, ${errorType("PrismaDeleteManyError")}>({
+            try: () => actualClient.${modelNameCamel}.deleteMany(args as any),
+            catch: (error) => ${mapError("PrismaDeleteManyError", "deleteMany")}
+          })
+        );
       }`,
 			)},
 
       updateMany: ${wrapTelemetry(
 				`Prisma.${modelNameCamel}.updateMany`,
 				`function* (args) {
-        const actualClient = yield* clientOrTx(client);
-        return yield* Effect.tryPromise<any, ${errorType("PrismaUpdateManyError")}>({
-          try: () => actualClient.${modelNameCamel}.updateMany(args as any),
-          catch: (error) => ${mapperFn("mapUpdateManyError")}(error, "updateMany", "${modelName}")
-        });
+        return yield* clientOrTx(client, (actualClient) =>
+          Effect.tryPromise<any, ${errorType("PrismaUpdateManyError")}>({
+            try: () => actualClient.${modelNameCamel}.updateMany(args as any),
+            catch: (error) => ${mapError("PrismaUpdateManyError", "updateMany")}
+          })
+        );
       }`,
 			)},
 
       updateManyAndReturn: ${wrapTelemetry(
 				`Prisma.${modelNameCamel}.updateManyAndReturn`,
 				`function* (args) {
-        const actualClient = yield* clientOrTx(client);
-        return yield* Effect.tryPromise<any, ${errorType("PrismaUpdateManyError")}>({
-          try: () => actualClient.${modelNameCamel}.updateManyAndReturn(args as any)${promiseCast()},
-          catch: (error) => ${mapperFn("mapUpdateManyError")}(error, "updateManyAndReturn", "${modelName}")
-        });
+        return yield* clientOrTx(client, (actualClient) =>
+          Effect.tryPromise<any, ${errorType("PrismaUpdateManyError")}>({
+            try: () => actualClient.${modelNameCamel}.updateManyAndReturn(args as any)${promiseCast()},
+            catch: (error) => ${mapError("PrismaUpdateManyError", "updateManyAndReturn")}
+          })
+        );
       }`,
 			)},
 
       upsert: ${wrapTelemetry(
 				`Prisma.${modelNameCamel}.upsert`,
 				`function* (args) {
-        const actualClient = yield* clientOrTx(client);
-        return yield* Effect.tryPromise<any, ${errorType("PrismaCreateError")}>({
-          try: () => actualClient.${modelNameCamel}.upsert(args as any)${promiseCast()},
-          catch: (error) => ${mapperFn("mapCreateError")}(error, "upsert", "${modelName}")
-        });
+        return yield* clientOrTx(client, (actualClient) =>
+          Effect.tryPromise<any, ${errorType("PrismaUpdateError")}>({
+            try: () => actualClient.${modelNameCamel}.upsert(args as any)${promiseCast()},
+            catch: (error) => ${mapError("PrismaUpdateError", "upsert")}
+          })
+        );
       }`,
 			)},
 
@@ -596,52 +2108,1125 @@ function generateModelOperations(
       count: ${wrapTelemetry(
 				`Prisma.${modelNameCamel}.count`,
 				`function* (args) {
-        const actualClient = yield* clientOrTx(client);
-        return yield* Effect.tryPromise<any, ${errorType("PrismaFindError")}>({
-          try: () => actualClient.${modelNameCamel}.count(args as any)${promiseCast()},
-          catch: (error) => ${mapperFn("mapFindError")}(error, "count", "${modelName}")
-        });
+        return yield* clientOrTx(client, (actualClient) =>
+          Effect.tryPromise<any, ${errorType("PrismaFindError")}>({
+            try: () => actualClient.${modelNameCamel}.count(args as any)${promiseCast()},
+            catch: (error) => ${mapperFn("PrismaFindError")}(error, "count", "${modelName}"${argsParam})
+          })
+        );
       }`,
 			)},
 
       aggregate: ${wrapTelemetry(
 				`Prisma.${modelNameCamel}.aggregate`,
 				`function* (args) {
-        const actualClient = yield* clientOrTx(client);
-        return yield* Effect.tryPromise<any, ${errorType("PrismaFindError")}>({
-          try: () => actualClient.${modelNameCamel}.aggregate(args as any)${strongPromiseCast()},
-          catch: (error) => ${mapperFn("mapFindError")}(error, "aggregate", "${modelName}")
-        });
+        return yield* clientOrTx(client, (actualClient) =>
+          Effect.tryPromise<any, ${errorType("PrismaFindError")}>({
+            try: () => actualClient.${modelNameCamel}.aggregate(args as any)${strongPromiseCast()},
+            catch: (error) => ${mapperFn("PrismaFindError")}(error, "aggregate", "${modelName}"${argsParam})
+          })
+        );
       }`,
 			)},
 
-      groupBy: ${wrapTelemetry(
-				`Prisma.${modelNameCamel}.groupBy`,
-				`function* (args) {
-        const actualClient = yield* clientOrTx(client);
-        return yield* Effect.tryPromise<any, ${errorType("PrismaFindError")}>({
-          try: () => actualClient.${modelNameCamel}.groupBy(args as any)${strongPromiseCast()},
-          catch: (error) => ${mapperFn("mapFindError")}(error, "groupBy", "${modelName}")
-        });
-      }`,
-			)}
-    }`;
-		})
-		.join(",\n\n");
+      groupBy: ${wrapTelemetry(
+				`Prisma.${modelNameCamel}.groupBy`,
+				`function* (args) {
+        return yield* clientOrTx(client, (actualClient) =>
+          Effect.tryPromise<any, ${errorType("PrismaFindError")}>({
+            try: () => actualClient.${modelNameCamel}.groupBy(args as any)${strongPromiseCast()},
+            catch: (error) => ${mapperFn("PrismaFindError")}(error, "groupBy", "${modelName}"${argsParam})
+          })
+        );
+      }`,
+			)}
+    }`;
+		})
+		.join(",\n\n");
+}
+
+// Parse error import path like "./errors#PrismaError" into { path, className }
+function parseErrorImportPath(
+	errorImportPath: string | undefined,
+): { path: string; className: string } | null {
+	if (!errorImportPath) return null;
+	const [path, className] = errorImportPath.split("#");
+	if (!path || !className) {
+		throw new Error(
+			`Invalid errorImportPath format: "${errorImportPath}". Expected "path/to/module#ErrorClassName"`,
+		);
+	}
+	return { path, className };
+}
+
+type SavepointStatements = {
+	create: string;
+	rollback: string;
+	release: string | null;
+} | null;
+
+// SQL used by nested transactions, per datasource provider.
+// SQL Server has its own syntax and no RELEASE; MongoDB has no savepoints,
+// so nested calls there simply join the outer transaction.
+function savepointStatements(provider: string): SavepointStatements {
+	switch (provider) {
+		case "mongodb":
+			return null;
+		case "sqlserver":
+			return {
+				create: "SAVE TRANSACTION",
+				rollback: "ROLLBACK TRANSACTION",
+				release: null,
+			};
+		default:
+			return {
+				create: "SAVEPOINT",
+				rollback: "ROLLBACK TO SAVEPOINT",
+				release: "RELEASE SAVEPOINT",
+			};
+	}
+}
+
+/**
+ * Doc comment lines of $transactionWith describing how it behaves inside
+ * another transaction under the configured transactionOptionsConflict policy.
+ */
+function nestedTransactionWithDoc(
+	transactionOptionsConflict: TransactionOptionsConflictPolicy,
+): string {
+	const lines = {
+		fail: [
+			"When called inside another transaction, the effect runs in a savepoint of",
+			"the outer transaction. If the options ask for a stronger isolation level or",
+			"a longer timeout than the outer transaction was started with, or set one the",
+			"outer transaction left to the client's default, it fails with",
+			"PrismaTransactionOptionsConflictError instead.",
+		],
+		isolate: [
+			"When called inside another transaction, the effect runs in a savepoint of",
+			"the outer transaction. If the options ask for a stronger isolation level or",
+			"a longer timeout than the outer transaction was started with, or set one the",
+			"outer transaction left to the client's default, it runs in a separate",
+			"transaction instead. That transaction commits when the effect succeeds and",
+			"does not commit or roll back with the outer one.",
+		],
+		ignore: [
+			"When called inside another transaction, the options are ignored and the",
+			"effect runs in a savepoint of the outer transaction.",
+		],
+	}[transactionOptionsConflict];
+	return lines.map((line) => `       * ${line}`).join("\n");
+}
+
+/**
+ * The call of a transaction method nested in another transaction: `nested`
+ * runs in the current transaction, `isolated` in its own one, as the
+ * transactionOptionsConflict policy decides.
+ */
+function nestedTransactionCall(
+	transactionOptionsConflict: TransactionOptionsConflictPolicy,
+	nested: string,
+	isolated: string,
+): string {
+	return {
+		fail: `withNestedTransactionOptions(options, ${nested})`,
+		isolate: `withNestedTransactionOptions(
+              options,
+              ${nested},
+              () => ${isolated}
+            )`,
+		ignore: nested,
+	}[transactionOptionsConflict];
+}
+
+/**
+ * Generate the internal helpers shared by all transaction entry points:
+ * starting a top-level transaction and running a nested one in a savepoint.
+ */
+function generateTransactionHelpers(
+	customError: CustomErrorConfig,
+	savepoints: SavepointStatements,
+	transactionOptionsConflict: TransactionOptionsConflictPolicy,
+): string {
+	const errorType = customError ? customError.className : "PrismaError";
+	const checked = transactionOptionsConflict !== "ignore";
+
+	const nestedOptionsHelper = {
+		fail: `/**
+ * Internal helper to run a transaction call nested in the current transaction.
+ * Fails with PrismaTransactionOptionsConflictError when it requests options
+ * the current transaction does not provide.
+ */
+const withNestedTransactionOptions = <A, E, R>(
+  options: TransactionOptions | undefined,
+  nested: Effect.Effect<A, E, R>
+): Effect.Effect<A, E | PrismaTransactionOptionsConflictError, R> =>
+  Effect.flatMap(Effect.serviceOption(PrismaTransactionInfo), (active): Effect.Effect<A, E | PrismaTransactionOptionsConflictError, R> => {
+    const conflict = findTransactionOptionsConflict(Option.getOrUndefined(active), options)
+    return conflict ? Effect.fail(new PrismaTransactionOptionsConflictError(conflict)) : nested
+  })`,
+		isolate: `/**
+ * Internal helper to run a transaction call nested in the current transaction.
+ * When it requests options the current transaction does not provide, it runs
+ * in its own independent transaction instead.
+ */
+const withNestedTransactionOptions = <A, E, R, A2, E2, R2>(
+  options: TransactionOptions | undefined,
+  nested: Effect.Effect<A, E, R>,
+  isolated: () => Effect.Effect<A2, E2, R2>
+): Effect.Effect<A | A2, E | E2, R | R2> =>
+  Effect.flatMap(Effect.serviceOption(PrismaTransactionInfo), (active): Effect.Effect<A | A2, E | E2, R | R2> =>
+    findTransactionOptionsConflict(Option.getOrUndefined(active), options) ? isolated() : nested
+  )`,
+		// Options are ignored: nested calls run in the current transaction as they are
+		ignore: "",
+	}[transactionOptionsConflict];
+
+	const optionsTracking = checked
+		? `
+// Isolation levels from weakest to strongest
+const isolationLevelStrength: ReadonlyArray<string> = ["ReadUncommitted", "ReadCommitted", "RepeatableRead", "Snapshot", "Serializable"]
+
+/**
+ * Find an option a nested transaction call requests that the active transaction,
+ * as its PrismaTransactionInfo describes it, does not provide. An option the
+ * active transaction left to the client's defaults, which are unknown here,
+ * counts as weaker than any value requested explicitly.
+ */
+const findTransactionOptionsConflict = (
+  active: Pick<PrismaTransactionInfo["Type"], "isolationLevel" | "timeout"> | undefined,
+  requested: TransactionOptions | undefined
+): { option: "isolationLevel" | "timeout"; requested: string | number; active: string | number | undefined } | undefined => {
+  if (
+    requested?.isolationLevel !== undefined &&
+    (active?.isolationLevel === undefined ||
+      isolationLevelStrength.indexOf(requested.isolationLevel) > isolationLevelStrength.indexOf(active.isolationLevel))
+  ) {
+    return { option: "isolationLevel", requested: requested.isolationLevel, active: active?.isolationLevel }
+  }
+  if (requested?.timeout !== undefined && (active?.timeout === undefined || requested.timeout > active.timeout)) {
+    return { option: "timeout", requested: requested.timeout, active: active?.timeout }
+  }
+  return undefined
+}
+`
+		: "";
+
+	const savepointBody = savepoints
+		? `Effect.flatMap(Effect.zip(FiberRef.get(transactionDepth), FiberRef.get(savepointLevel)), ([depth, level]) => {
+    // Siblings take turns on the lock of the level they open a savepoint in
+    const lock = Option.isSome(level) && level.value.txClient === txClient
+      ? level.value.lock
+      : topLevelSavepointLock(txClient)
+    const savepoint = \`effect_prisma_sp_\${++savepointCount}\`
+    // Savepoint statements wait for the transaction's permit like any operation
+    const permit = transactionPermits.get(txClient)
+    const exec = (sql: string, operation: string) => {
+      const statement = Effect.tryPromise({
+        try: () => txClient.$executeRawUnsafe(sql),
+        catch: (error) => mapError(error, operation, "Prisma")
+      }).pipe(Effect.withSpan(\`txClient.\${operation}\`))
+      return permit ? permit.withPermits(1)(statement) : statement
+    }
+
+    return withTransactionHooks(lock.withPermits(1)(acquireUseReleaseWithErrors(
+      // Acquire: mark the savepoint
+      exec(\`${savepoints.create} \${savepoint}\`, "$savepoint"),
+
+      // Use: run the effect one level deeper, on the same transaction client,
+      // with a lock of its own for the savepoints nested in it
+      () =>
+        Effect.flatMap(nestedTransactionInfo(depth + 1), (info) =>
+          provideTransaction(effect, txClient, info).pipe(
+            Effect.locally(savepointLevel, Option.some({ txClient, lock: Effect.unsafeMakeSemaphore(1) }))
+          )
+        ),
+
+      // Release: keep the writes on success, undo only this level's writes on failure/interruption
+      (_, exit) =>
+        Exit.isSuccess(exit)
+          ? ${savepoints.release ? `exec(\`${savepoints.release} \${savepoint}\`, "$releaseSavepoint")` : "Effect.void"}
+          : exec(\`${savepoints.rollback} \${savepoint}\`, "$rollbackToSavepoint")
+    )), true)
+  })`
+		: `// This datasource has no savepoints - join the outer transaction
+  Effect.flatMap(FiberRef.get(transactionDepth), (depth) =>
+    Effect.flatMap(nestedTransactionInfo(depth), (info) =>
+      provideTransaction(effect, txClient, info)
+    )
+  )`;
+
+	return `// Whether a transaction failed on a write conflict or deadlock (P2034), which
+// is safe to retry from the start of the transaction. Matches the Prisma error
+// itself or an error carrying it as \`cause\`.
+const isTransactionConflict = (error: unknown): boolean => {
+  const cause = typeof error === "object" && error !== null && "cause" in error ? error.cause : error
+  return cause instanceof PrismaNamespace.PrismaClientKnownRequestError && cause.code === "P2034"
+}
+
+// Nesting depth of the current transaction (0 = not in a transaction)
+const transactionDepth = FiberRef.unsafeMake(0)
+${
+	savepoints
+		? `
+// Savepoints created so far, numbering each savepoint with a unique name
+let savepointCount = 0
+
+// Rolling back to a savepoint undoes every write and savepoint after it, so
+// sibling savepoints of one transaction level must not overlap. Each level has
+// a lock its nested transactions hold from SAVEPOINT to RELEASE / ROLLBACK TO.
+interface SavepointLevel {
+  readonly txClient: PrismaNamespace.TransactionClient
+  readonly lock: Effect.Semaphore
+}
+
+// Level of the savepoint the fiber runs in (None = top-level or no transaction)
+const savepointLevel = FiberRef.unsafeMake<Option.Option<SavepointLevel>>(Option.none())
+
+// Locks of top-level transactions, created by their first nested transaction
+const topLevelSavepointLocks = new WeakMap<PrismaNamespace.TransactionClient, Effect.Semaphore>()
+
+const topLevelSavepointLock = (txClient: PrismaNamespace.TransactionClient): Effect.Semaphore => {
+  let lock = topLevelSavepointLocks.get(txClient)
+  if (!lock) {
+    lock = Effect.unsafeMakeSemaphore(1)
+    topLevelSavepointLocks.set(txClient, lock)
+  }
+  return lock
+}
+`
+		: ""
+}${optionsTracking}
+// Effects registered with Prisma.onCommit / Prisma.onRollback for one
+// transaction level (the top-level transaction or a savepoint)
+interface TransactionHooks {
+  readonly onCommit: Array<Effect.Effect<unknown>>
+  readonly onRollback: Array<Effect.Effect<unknown>>
+}
+
+// Hooks of the current transaction level (None = not in a transaction)
+const transactionHooks = FiberRef.unsafeMake<Option.Option<TransactionHooks>>(Option.none())
+
+const runTransactionHooks = (hooks: ReadonlyArray<Effect.Effect<unknown>>) =>
+  Effect.forEach(hooks, (hook) => hook, { discard: true })
+
+// Captures the caller's context, minus the transaction client that is closed
+// by the time the hook runs, so hooks use the regular client
+const registerTransactionHook = <A, R>(
+  effect: Effect.Effect<A, never, R>,
+  register: (hooks: TransactionHooks, hook: Effect.Effect<A>) => void,
+  outside: Effect.Effect<void, never, R>
+): Effect.Effect<void, never, R> =>
+  Effect.flatMap(FiberRef.get(transactionHooks), (current) =>
+    Option.isNone(current)
+      ? outside
+      : Effect.map(Effect.context<R>(), (context) =>
+          register(current.value, Effect.provide(effect, Context.omit(PrismaTransactionClientService)(context) as Context.Context<R>))
+        )
+  )
+
+/**
+ * Run an effect once the outermost transaction has committed.
+ * Outside a transaction, the effect runs immediately.
+ */
+const onCommit = <A, R>(effect: Effect.Effect<A, never, R>): Effect.Effect<void, never, R> =>
+  registerTransactionHook(effect, (hooks, hook) => { hooks.onCommit.push(hook) }, Effect.asVoid(effect))
+
+/**
+ * Run an effect once the current transaction has rolled back.
+ * Outside a transaction, this does nothing.
+ */
+const onRollback = <A, R>(effect: Effect.Effect<A, never, R>): Effect.Effect<void, never, R> =>
+  registerTransactionHook(effect, (hooks, hook) => { hooks.onRollback.push(hook) }, Effect.void)
+
+/**
+ * Internal helper to give a transaction level its own commit/rollback hooks.
+ * After a rollback, the level's onRollback hooks run. After a commit, its
+ * onCommit hooks run - unless it is a savepoint, whose hooks are handed to the
+ * enclosing transaction, as its writes are only durable once that commits.
+ */
+const withTransactionHooks = <A, E, R>(
+  transaction: Effect.Effect<A, E, R>,
+  savepoint: boolean
+): Effect.Effect<A, E, R> =>
+  Effect.flatMap(FiberRef.get(transactionHooks), (outer) => {
+    const hooks: TransactionHooks = { onCommit: [], onRollback: [] }
+    return transaction.pipe(
+      Effect.locally(transactionHooks, Option.some(hooks)),
+      Effect.onExit((exit) => {
+        if (Exit.isFailure(exit)) {
+          return runTransactionHooks(hooks.onRollback)
+        }
+        if (savepoint && Option.isSome(outer)) {
+          return Effect.sync(() => {
+            outer.value.onCommit.push(...hooks.onCommit)
+            outer.value.onRollback.push(...hooks.onRollback)
+          })
+        }
+        return runTransactionHooks(hooks.onCommit)
+      })
+    )
+  })
+
+// Counter for generated transaction ids
+let transactionCount = 0
+
+const makeTransactionInfo = (
+  options: TransactionOptions | undefined,
+  isolated: boolean
+): Effect.Effect<PrismaTransactionInfo["Type"]> =>
+  Effect.map(Clock.currentTimeMillis, (startedAt) => ({
+    id: \`tx_\${startedAt.toString(36)}_\${(++transactionCount).toString(36)}\`,
+    depth: 1,
+    startedAt,
+    isolationLevel: options?.isolationLevel,
+    timeout: options?.timeout,
+    isolated
+  }))
+
+// Info of a transaction nested at \`depth\` in the current one
+const nestedTransactionInfo = (depth: number): Effect.Effect<PrismaTransactionInfo["Type"]> =>
+  Effect.flatMap(Effect.serviceOption(PrismaTransactionInfo), (current) =>
+    Option.isSome(current)
+      ? Effect.succeed({ ...current.value, depth })
+      : Effect.map(makeTransactionInfo(undefined, false), (info) => ({ ...info, depth }))
+  )
+
+// Run an effect as part of a transaction: with its client and info, and with
+// the id and depth added to its logs and spans
+const provideTransaction = <A, E, R>(
+  effect: Effect.Effect<A, E, R>,
+  txClient: PrismaNamespace.TransactionClient,
+  info: PrismaTransactionInfo["Type"]
+): Effect.Effect<A, E, Exclude<R, PrismaTransactionClientService | PrismaTransactionInfo>> =>
+  effect.pipe(
+    Effect.provideService(PrismaTransactionClientService, txClient),
+    Effect.provideService(PrismaTransactionInfo, info),
+    Effect.locally(transactionDepth, info.depth),
+    Effect.annotateLogs({ "prisma.transaction.id": info.id, "prisma.transaction.depth": info.depth }),
+    Effect.annotateSpans({ "prisma.transaction.id": info.id, "prisma.transaction.depth": info.depth })
+  ) as Effect.Effect<A, E, Exclude<R, PrismaTransactionClientService | PrismaTransactionInfo>>
+
+// The error of a transaction that could not begin, e.g. no connection was free within maxWait
+const startError = ${
+			customError
+				? `(error: unknown, mapError: PrismaErrorMapperFn<${errorType}>): ${errorType} =>
+  mapError(error, "$transaction", "Prisma")`
+				: `(error: unknown): ${errorType} => transactionError(PrismaTransactionStartError, error, "$transaction")`
+		}
+
+const commitTransaction = (
+  txClient: FlatTransactionClient,
+  mapError: PrismaErrorMapperFn<${errorType}>
+) =>
+  Effect.tryPromise({
+    try: () => txClient.$commit(),
+    catch: (error) => ${
+			customError
+				? `mapError(error, "$commit", "Prisma")`
+				: `// The transaction is only closed by Prisma itself when it exceeds its timeout
+      error instanceof PrismaNamespace.PrismaClientKnownRequestError && error.code === "P2028"
+        ? transactionError(PrismaTransactionExpiredError, error, "$commit")
+        : mapError(error, "$commit", "Prisma")`
+		}
+  }).pipe(Effect.withSpan("txClient.$commit"))
+
+const rollbackTransaction = (
+  txClient: FlatTransactionClient,
+  mapError: PrismaErrorMapperFn<${errorType}>
+) =>
+  Effect.tryPromise({
+    try: () => txClient.$rollback(),
+    catch: (error) => mapError(error, "$rollback", "Prisma")
+  }).pipe(Effect.withSpan("txClient.$rollback"))
+
+/**
+ * Internal helper to run an effect in a fresh top-level transaction.
+ * Commits on success, rolls back on failure or interruption.
+ */
+const runInTransaction = <A, E, R>(
+  client: BasePrismaClient,
+  mapError: PrismaErrorMapperFn<${errorType}>,
+  effect: Effect.Effect<A, E, R>,
+  options?: TransactionOptions,
+  isolated = false
+): Effect.Effect<A, E | ${errorType}, Exclude<R, PrismaTransactionClientService | PrismaTransactionInfo>> =>
+  withTransactionHooks(acquireUseReleaseWithErrors(
+    // Acquire: begin a new transaction
+    $begin(client, mapError, options),
+
+    // Use: run the effect with the transaction client and info injected
+    (txClient) =>
+      Effect.flatMap(makeTransactionInfo(options, isolated), (info) =>
+        provideTransaction(effect, txClient, info)
+      ),
+
+    // Release: commit on success, rollback on failure/interruption
+    (txClient, exit) =>
+      Exit.isSuccess(exit)
+        ? commitTransaction(txClient, mapError)
+        : rollbackTransaction(txClient, mapError)
+  ), false)
+
+/**
+ * A transaction tied to a Scope, returned by \`prisma.$transactionScoped\`.
+ * It commits when the scope closes successfully and rolls back when it closes
+ * with a failure or interruption, unless it was committed or rolled back first.
+ */
+export interface TransactionHandle {
+  /** The interactive transaction client */
+  readonly client: PrismaNamespace.TransactionClient
+  /** The transaction services that \`run\` provides */
+  readonly context: Context.Context<PrismaTransactionClientService | PrismaTransactionInfo>
+  /** Run an effect inside this transaction, like \`$transaction\` does */
+  readonly run: <A, E, R>(
+    effect: Effect.Effect<A, E, R>
+  ) => Effect.Effect<A, E, Exclude<R, PrismaTransactionClientService | PrismaTransactionInfo>>
+  /**
+   * Commit now instead of when the scope closes. Commit errors surface here
+   * as typed errors, and closing the scope afterwards does nothing. Only a
+   * commit left to the scope close turns its error into a defect.
+   */
+  readonly commit: Effect.Effect<void, ${errorType}>
+  /** Roll back now instead of when the scope closes, with typed errors like \`commit\` */
+  readonly rollback: Effect.Effect<void, ${errorType}>
+}
+
+/**
+ * Internal helper to begin a top-level transaction whose lifetime is the
+ * current Scope. Commits or rolls back based on the scope's exit.
+ */
+const runScopedTransaction = (
+  client: BasePrismaClient,
+  mapError: PrismaErrorMapperFn<${errorType}>,
+  options?: TransactionOptions
+): Effect.Effect<TransactionHandle, ${errorType}, Scope.Scope> =>
+  Effect.map(
+    Effect.acquireRelease(
+      Effect.map(Effect.zip($begin(client, mapError, options), makeTransactionInfo(options, false)), ([txClient, info]) => {
+        const hooks: TransactionHooks = { onCommit: [], onRollback: [] }
+        let finished = false
+
+        // Commit or roll back once, then run the matching hooks
+        const finish = (commit: boolean) =>
+          Effect.suspend(() => {
+            if (finished) return Effect.void
+            finished = true
+            return (commit ? commitTransaction(txClient, mapError) : rollbackTransaction(txClient, mapError)).pipe(
+              Effect.onExit((exit) =>
+                runTransactionHooks(commit && Exit.isSuccess(exit) ? hooks.onCommit : hooks.onRollback)
+              )
+            )
+          })
+
+        const handle: TransactionHandle = {
+          client: txClient,
+          context: Context.make(PrismaTransactionClientService, txClient as PrismaNamespace.TransactionClient).pipe(
+            Context.add(PrismaTransactionInfo, info)
+          ),
+          run: (effect) =>
+            provideTransaction(effect, txClient, info).pipe(
+              Effect.locally(transactionHooks, Option.some(hooks))
+            ),
+          commit: finish(true),
+          rollback: finish(false)
+        }
+        return { handle, finish }
+      }),
+      // Finalizers cannot fail, so only the implicit commit or rollback dies on
+      // error. After handle.commit or handle.rollback, finish does nothing here
+      ({ finish }, exit) => Effect.orDie(finish(Exit.isSuccess(exit)))
+    ),
+    ({ handle }) => handle
+  )
+
+// The results of \`$batch\` operations, as a tuple
+type BatchResults<Operations extends ReadonlyArray<Effect.Effect<any, any, any>>> = {
+  -readonly [K in keyof Operations]: Effect.Effect.Success<Operations[K]>
+}
+
+// Run the operations with Effect.all, whose results lose their tuple type when
+// the operations are mapped over first
+const allOperations = <Operations extends ReadonlyArray<Effect.Effect<any, any, any>>, E, R>(
+  _operations: Operations,
+  effects: ReadonlyArray<Effect.Effect<unknown, E, R>>,
+  concurrency: "unbounded" | 1
+): Effect.Effect<BatchResults<Operations>, E, R> =>
+  Effect.all(effects, { concurrency }) as Effect.Effect<Array<unknown>, E, R> as Effect.Effect<BatchResults<Operations>, E, R>
+
+/**
+ * Internal helper to run operations as one array-form \`client.$transaction([...])\`.
+ * Each operation runs against a recording client: its query is queued instead of
+ * sent. Once every operation has queued exactly one query, the batch runs in one
+ * round trip, and each operation resumes with its own result. When the batch
+ * fails, the operation whose query failed maps the failure with its own mapper
+ * and the others are interrupted. An operation that fails, or ends, before
+ * queueing its query stops the batch from being sent at all.
+ */
+const runBatch = <const Operations extends ReadonlyArray<Effect.Effect<any, any, any>>>(
+  client: BasePrismaClient,
+  operations: Operations,
+  options?: Pick<TransactionOptions, "isolationLevel">
+): Effect.Effect<
+  BatchResults<Operations>,
+  Effect.Effect.Error<Operations[number]>,
+  Exclude<Effect.Effect.Context<Operations[number]>, PrismaTransactionClientService>
+> =>
+  Effect.flatMap(Deferred.make<void>(), (allQueued) => {
+    const requests: Array<PrismaNamespace.PrismaPromise<unknown>> = []
+    const pending: Array<{ resolve: (result: unknown) => void; reject: (error: unknown) => void }> = []
+    let queued = 0
+
+    const recordingClient = (index: number): PrismaNamespace.TransactionClient => {
+      const record = (request: PrismaNamespace.PrismaPromise<unknown>) => {
+        if (requests[index] !== undefined) {
+          throw new Error("$batch operations must run exactly one query")
+        }
+        requests[index] = request
+        queued += 1
+        if (queued === operations.length) Deferred.unsafeDone(allQueued, Exit.void)
+        return new Promise<unknown>((resolve, reject) => {
+          pending[index] = { resolve, reject }
+        })
+      }
+      return new Proxy(client, {
+        get: (target, property) => {
+          const value: unknown = Reflect.get(target, property)
+          if (typeof value === "function") {
+            return (...args: Array<unknown>) => record(Reflect.apply(value, target, args))
+          }
+          if (typeof value !== "object" || value === null) return value
+          return new Proxy(value, {
+            get: (delegate, method) => (...args: Array<unknown>) =>
+              record(Reflect.apply(Reflect.get(delegate, method), delegate, args))
+          })
+        }
+      })
+    }
+
+    // Send the batch once every operation has queued its query
+    const send = Effect.zipRight(
+      Deferred.await(allQueued),
+      Effect.async<void>((resume) => {
+        client.$transaction(requests, options).then(
+          (results) => {
+            results.forEach((result, index) => pending[index]?.resolve(result))
+            resume(Effect.void)
+          },
+          (error: unknown) => {
+            // Prisma reports which query of the batch failed: only its operation
+            // fails, and failing interrupts the other operations
+            const failed =
+              typeof error === "object" && error !== null && "batchRequestIdx" in error &&
+              typeof error.batchRequestIdx === "number"
+                ? pending[error.batchRequestIdx]
+                : undefined
+            if (failed) failed.reject(error)
+            else pending.forEach(({ reject }) => reject(error))
+            resume(Effect.void)
+          }
+        )
+      })
+    )
+
+    const results = allOperations(
+      operations,
+      operations.map((operation, index) =>
+        operation.pipe(
+          Effect.provideService(PrismaTransactionClientService, recordingClient(index)),
+          // An operation that ended without a query would hold up the batch forever
+          Effect.tap(() =>
+            requests[index] === undefined
+              ? Effect.dieMessage("$batch operations must run exactly one query")
+              : Effect.void
+          )
+        )
+      ),
+      "unbounded"
+    )
+
+    return operations.length === 0
+      ? results
+      : Effect.zipLeft(results, send, { concurrent: true })
+  })
+
+/**
+ * A step of \`prisma.$saga\`: \`run\` commits in its own transaction, and
+ * \`compensate\` undoes it in another one when a later step fails.
+ */
+export interface SagaStep<A, E, R, E2 = never, R2 = never> {
+  readonly run: Effect.Effect<A, E, R>
+  /** Undo the committed step, given the result of \`run\` */
+  readonly compensate: (result: A) => Effect.Effect<unknown, E2, R2>
+}
+
+// Types the compensate parameter of each $saga step with the result of its run
+type SagaSteps<Steps extends ReadonlyArray<SagaStep<any, any, any, any, any>>> = {
+  [K in keyof Steps]: Steps[K] extends SagaStep<infer A, infer E, infer R, any, any> ? SagaStep<A, E, R, any, any> : never
+}
+
+// The results of \`$saga\` steps, as a tuple
+type SagaResults<Steps extends ReadonlyArray<SagaStep<any, any, any, any, any>>> = {
+  -readonly [K in keyof Steps]: Effect.Effect.Success<Steps[K]["run"]>
+}
+
+/**
+ * Internal helper to run the steps of a saga in order, each in its own
+ * top-level transaction. When a step fails, dies or is interrupted, the
+ * completed steps are compensated in reverse order, each in its own
+ * transaction. Every compensation runs even when an earlier one fails or dies.
+ */
+const runSagaSteps = <A, E, R, E2, R2>(
+  client: BasePrismaClient,
+  mapError: PrismaErrorMapperFn<${errorType}>,
+  steps: ReadonlyArray<SagaStep<A, E, R, E2, R2>>
+): Effect.Effect<
+  Array<A>,
+  E | ${errorType} | PrismaSagaCompensationError<E | ${errorType}, E2 | ${errorType}>,
+  Exclude<R | R2, PrismaTransactionClientService | PrismaTransactionInfo>
+> =>
+  Effect.suspend(() => {
+    const results: Array<A> = []
+    const compensate = (cause: Cause.Cause<E | ${errorType}>) =>
+      Effect.suspend(() => {
+        const compensations: Array<{ step: number; error: E2 | ${errorType} }> = []
+        const defects: Array<{ step: number; defect: unknown }> = []
+        return Effect.forEach(
+          results.map((result, step) => ({ result, step })).reverse(),
+          ({ result, step }) =>
+            Effect.map(Effect.exit(runInTransaction(client, mapError, steps[step]!.compensate(result), undefined, true)), (exit) => {
+              if (Exit.isSuccess(exit)) return
+              const error = Cause.failureOption(exit.cause)
+              if (Option.isSome(error)) compensations.push({ step, error: error.value })
+              else defects.push({ step, defect: Cause.squash(exit.cause) })
+            }),
+          { discard: true }
+        ).pipe(
+          Effect.flatMap((): Effect.Effect<never, E | ${errorType} | PrismaSagaCompensationError<E | ${errorType}, E2 | ${errorType}>> => {
+            if (compensations.length === 0 && defects.length === 0) return Effect.failCause(cause)
+            const failure = Cause.failureOption(cause)
+            if (Option.isSome(failure)) {
+              return Effect.fail(
+                new PrismaSagaCompensationError<E | ${errorType}, E2 | ${errorType}>({ step: results.length, error: failure.value, compensations, defects })
+              )
+            }
+            // A defect or interruption is re-raised, with the failed compensations as a defect after it
+            return Effect.failCause(
+              Cause.sequential(
+                cause,
+                Cause.die(
+                  new PrismaSagaCompensationError<unknown, E2 | ${errorType}>({ step: results.length, error: Cause.squash(cause), compensations, defects })
+                )
+              )
+            )
+          })
+        )
+      })
+
+    // Compensations run to the end even if the saga is interrupted meanwhile
+    return Effect.uninterruptibleMask((restore) =>
+      restore(
+        Effect.forEach(
+          steps,
+          (step) =>
+            Effect.map(runInTransaction(client, mapError, step.run, undefined, true), (result) => {
+              results.push(result)
+            }),
+          { discard: true }
+        )
+      ).pipe(
+        Effect.as(results),
+        Effect.catchAllCause(compensate)
+      )
+    )
+  })
+
+// Run the steps of a \`$saga\` with runSagaSteps, typed by the steps themselves
+// so that the results keep their tuple type
+const runSaga = <const Steps extends ReadonlyArray<SagaStep<any, any, any, any, any>>>(
+  client: BasePrismaClient,
+  mapError: PrismaErrorMapperFn<${errorType}>,
+  steps: Steps
+) =>
+  Effect.map(
+    runSagaSteps<
+      Effect.Effect.Success<Steps[number]["run"]>,
+      Effect.Effect.Error<Steps[number]["run"]>,
+      Effect.Effect.Context<Steps[number]["run"]>,
+      Effect.Effect.Error<ReturnType<Steps[number]["compensate"]>>,
+      Effect.Effect.Context<ReturnType<Steps[number]["compensate"]>>
+    >(client, mapError, steps),
+    (results) => results as SagaResults<Steps>
+  )
+
+// The parts of a TransactionHandle, of any generated client, used by $transactionAcross
+interface ParticipantHandle<E> {
+  readonly run: <A, E1, R>(effect: Effect.Effect<A, E1, R>) => Effect.Effect<A, E1, unknown>
+  readonly commit: Effect.Effect<void, E>
+  readonly rollback: Effect.Effect<void, E>
+}
+
+// The Prisma service of a generated client, as far as $transactionAcross uses it
+interface ParticipantService<E> {
+  readonly $transactionScoped: () => Effect.Effect<ParticipantHandle<E>, E, Scope.Scope>
+}
+
+/**
+ * The Prisma service tag of a generated client taking part in
+ * \`$transactionAcross\`. Only its \`$transactionScoped\` is used.
+ */
+type TransactionParticipant = Context.Tag<any, any> & { readonly Service: ParticipantService<unknown> }
+
+// The error of beginning or committing a participant's transaction
+type ParticipantError<P> = P extends {
+  readonly Service: { readonly $transactionScoped: (...args: any) => Effect.Effect<any, infer E, any> }
+}
+  ? E
+  : never
+
+// The transaction services a participant's TransactionHandle provides
+type ParticipantServices<P> = P extends {
+  readonly Service: {
+    readonly $transactionScoped: (...args: any) => Effect.Effect<{ readonly context: Context.Context<infer S> }, any, any>
+  }
+}
+  ? S
+  : never
+
+/**
+ * Internal helper to begin the scoped transaction of each participant, in
+ * order. The handles are typed with the errors of the participants.
+ */
+const openParticipants = <const Participants extends ReadonlyArray<TransactionParticipant>>(
+  participants: Participants
+): Effect.Effect<
+  Array<ParticipantHandle<ParticipantError<Participants[number]>>>,
+  ParticipantError<Participants[number]>,
+  Scope.Scope | Context.Tag.Identifier<Participants[number]>
+> =>
+  Effect.forEach(participants, (participant) =>
+    Effect.flatMap(participant, (prisma: ParticipantService<unknown>) => prisma.$transactionScoped())
+  ) as Effect.Effect<Array<ParticipantHandle<unknown>>, unknown, Scope.Scope> as Effect.Effect<
+    Array<ParticipantHandle<ParticipantError<Participants[number]>>>,
+    ParticipantError<Participants[number]>,
+    Scope.Scope | Context.Tag.Identifier<Participants[number]>
+  >
+
+/**
+ * Run an effect in one transaction per participant, for services generated
+ * from different schemas (each needs its own \`contextTagPrefix\`). The effect
+ * can use all of them, as in their \`$transaction\`.
+ *
+ * This is best effort, not a two-phase commit: the transactions commit one by
+ * one in the order of \`participants\`. When the effect fails, all of them roll
+ * back. When a commit fails, the ones after it roll back; if some already
+ * committed or a rollback failed, this fails with PrismaPartialCommitError,
+ * which records the outcome of each of those rollbacks. Otherwise it fails
+ * with the commit error.
+ *
+ * @example
+ * yield* $transactionAcross([Prisma, AnalyticsPrisma], Effect.gen(function* () {
+ *   const prisma = yield* Prisma
+ *   const analytics = yield* AnalyticsPrisma
+ *   const user = yield* prisma.user.create({ data: { email } })
+ *   yield* analytics.event.create({ data: { type: "signup", userId: user.id } })
+ * }))
+ */
+export const $transactionAcross = <const Participants extends ReadonlyArray<TransactionParticipant>, A, E, R>(
+  participants: Participants,
+  effect: Effect.Effect<A, E, R>
+): Effect.Effect<
+  A,
+  E | ParticipantError<Participants[number]> | PrismaPartialCommitError<ParticipantError<Participants[number]>>,
+  Exclude<R, ParticipantServices<Participants[number]>> | Context.Tag.Identifier<Participants[number]>
+> =>
+  Effect.scoped(
+    Effect.gen(function* () {
+      const keys = participants.map((participant) => participant.key)
+      const duplicate = keys.find((key, index) => keys.indexOf(key) !== index)
+      if (duplicate !== undefined) {
+        return yield* Effect.dieMessage(
+          \`$transactionAcross participants need distinct tags, "\${duplicate}" is used twice: set contextTagPrefix in their generators\`
+        )
+      }
+
+      // Scoped transactions roll back when the scope closes unless committed
+      const handles = yield* openParticipants(participants)
+      // Each run provides the transaction services of its own participant
+      const result = yield* (handles.reduceRight(
+        (inner: Effect.Effect<A, E, unknown>, handle) => handle.run(inner),
+        effect
+      ) as Effect.Effect<A, E, Exclude<R, ParticipantServices<Participants[number]>>>)
+
+      // Once a commit went through, the outcome must be reported, not interrupted
+      yield* Effect.uninterruptible(
+        Effect.gen(function* () {
+          for (const [index, handle] of handles.entries()) {
+            const commit = yield* Effect.either(handle.commit)
+            if (commit._tag === "Right") continue
+            const rollbacks = yield* Effect.forEach(handles.slice(index + 1), (rest) => Effect.either(rest.rollback))
+            const rest = keys.slice(index + 1)
+            const rollbackFailures = rollbacks.flatMap((rollback, i) =>
+              rollback._tag === "Left" ? [{ participant: rest[i]!, error: rollback.left }] : []
+            )
+            // Nothing committed and everything rolled back: the commit error tells it all
+            if (index === 0 && rollbackFailures.length === 0) return yield* Effect.fail(commit.left)
+            return yield* Effect.fail(
+              new PrismaPartialCommitError<ParticipantError<Participants[number]>>({
+                committed: keys.slice(0, index),
+                failed: keys[index]!,
+                error: commit.left,
+                rolledBack: rest.filter((_, i) => rollbacks[i]!._tag === "Right"),
+                rollbackFailures
+              })
+            )
+          }
+        })
+      )
+      return result
+    })
+  )
+
+/**
+ * Internal helper to run a nested transaction inside the current one.
+ * The effect runs in a savepoint, so a failure only undoes its own writes
+ * and the outer transaction can recover from it. Concurrent nested
+ * transactions at the same level wait for each other.
+ */
+const runInSavepoint = <A, E, R>(
+  txClient: PrismaNamespace.TransactionClient,
+  mapError: PrismaErrorMapperFn<${errorType}>,
+  effect: Effect.Effect<A, E, R>
+): Effect.Effect<A, E | ${errorType}, Exclude<R, PrismaTransactionClientService | PrismaTransactionInfo>> =>
+  ${savepointBody}
+
+${nestedOptionsHelper}`;
+}
+
+/**
+ * Generate the transaction identity map (transactionIdentityMap): a wrapper
+ * for transaction clients that caches findUnique / findUniqueOrThrow rows read
+ * by primary key, and drops them when a write may have changed them.
+ * Empty when disabled.
+ */
+function generateIdentityMap(models: DMMF.Model[], enabled: boolean): string {
+	if (!enabled) return "";
+
+	// The models reachable from a model through relations, itself included:
+	// a write can change their rows through foreign keys and cascades
+	const modelsByName = new Map(models.map((model) => [model.name, model]));
+	const relatedModels = (name: string): Array<string> => {
+		const reached = new Set([name]);
+		for (const current of reached) {
+			for (const field of modelsByName.get(current)?.fields ?? []) {
+				if (field.kind === "object") reached.add(field.type);
+			}
+		}
+		return [...reached];
+	};
+
+	const entries = models
+		.map((model) => {
+			// The where key of the primary key: the @id field, or the compound @@id
+			const id = model.primaryKey
+				? (model.primaryKey.name ?? model.primaryKey.fields.join("_"))
+				: model.fields.find((field) => field.isId)?.name;
+			const relations = model.fields
+				.filter((field) => field.kind === "object")
+				.map((field) => `${field.name}: "${toCamelCase(field.type)}"`)
+				.join(", ");
+			const affected = relatedModels(model.name)
+				.map((name) => `"${toCamelCase(name)}"`)
+				.join(", ");
+			return `  ${toCamelCase(model.name)}: { id: ${id ? `"${id}"` : "undefined"}, relations: { ${relations} }, affected: [${affected}] }`;
+		})
+		.join(",\n");
+
+	return `
+// Per model delegate: the where key of its primary key, the delegate of each
+// relation field, and the delegates whose rows its writes can change, through
+// relations followed transitively (foreign keys and cascades)
+const identityMapModels: Record<string, {
+  readonly id: string | undefined
+  readonly relations: Record<string, string>
+  readonly affected: ReadonlyArray<string>
+}> = {
+${entries}
+}
+
+/**
+ * A transaction's identity map: rows read with findUnique / findUniqueOrThrow
+ * by primary key, keyed by delegate and arguments, with the delegates whose
+ * writes can change the row (its own and those of its selected relations).
+ */
+interface IdentityMap {
+  readonly rows: Map<string, { readonly row: unknown; readonly models: ReadonlySet<string> }>
+  // Counts the writes, so that a read that ran across one is not cached
+  writes: number
+}
+
+const makeIdentityMap = (): IdentityMap => ({ rows: new Map(), writes: 0 })
+
+// Drop every row, e.g. after a raw query, which can write anything
+const clearIdentityMap = (identityMap: IdentityMap) => {
+  identityMap.rows.clear()
+  identityMap.writes++
+}
+
+// Model delegate methods that write
+const identityMapWrites = new Set([
+  "create", "createMany", "createManyAndReturn", "update", "updateMany",
+  "updateManyAndReturn", "upsert", "delete", "deleteMany"
+])
+
+// The arguments of a read, as far as the identity map looks at them
+interface IdentityMapArgs {
+  readonly where?: unknown
+  readonly select?: unknown
+  readonly include?: unknown
+}
+
+// The key of a findUnique read by primary key alone, undefined for other reads
+const identityKey = (delegate: string, args: IdentityMapArgs | undefined): string | undefined => {
+  const id = identityMapModels[delegate]?.id
+  const where = args?.where
+  if (id === undefined || where === null || typeof where !== "object") return undefined
+  const keys = Object.keys(where)
+  if (keys.length !== 1 || keys[0] !== id) return undefined
+  return \`\${delegate}:\${JSON.stringify(args, (_, value) => typeof value === "bigint" ? \`\${value}n\` : value)}\`
+}
+
+// The delegate and the delegates of the relations its select or include reads
+const selectedModels = (delegate: string, args: IdentityMapArgs | undefined, models = new Set<string>()): Set<string> => {
+  models.add(delegate)
+  const relations = identityMapModels[delegate]?.relations ?? {}
+  for (const selection of [args?.select, args?.include]) {
+    if (selection === null || typeof selection !== "object") continue
+    for (const [field, value] of Object.entries(selection)) {
+      if (!value) continue
+      if (field === "_count") {
+        for (const related of Object.values(relations)) models.add(related)
+      } else if (relations[field] !== undefined) {
+        selectedModels(relations[field], typeof value === "object" ? value : undefined, models)
+      }
+    }
+  }
+  return models
+}
+
+// The delegates of the relation fields found in write arguments (nested writes)
+const nestedWrites = (delegate: string, value: unknown, models: Set<string>): Set<string> => {
+  if (Array.isArray(value)) {
+    for (const item of value) nestedWrites(delegate, item, models)
+  } else if (value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    const relations = identityMapModels[delegate]?.relations ?? {}
+    for (const [field, nested] of Object.entries(value)) {
+      if (relations[field] !== undefined) {
+        models.add(relations[field])
+        nestedWrites(relations[field], nested, models)
+      } else {
+        nestedWrites(delegate, nested, models)
+      }
+    }
+  }
+  return models
+}
+
+// Drop the rows a write may have changed: rows of the written delegates and of
+// the delegates they reach through relations, whose foreign keys or cascades
+// it may change
+const invalidateWrite = (identityMap: IdentityMap, delegate: string, args: unknown) => {
+  identityMap.writes++
+  const written = new Set<string>()
+  for (const model of nestedWrites(delegate, args, new Set([delegate]))) {
+    for (const affected of identityMapModels[model]?.affected ?? [model]) written.add(affected)
+  }
+  for (const [key, entry] of identityMap.rows) {
+    for (const model of entry.models) {
+      if (written.has(model)) {
+        identityMap.rows.delete(key)
+        break
+      }
+    }
+  }
 }
 
-// Parse error import path like "./errors#PrismaError" into { path, className }
-function parseErrorImportPath(
-	errorImportPath: string | undefined,
-): { path: string; className: string } | null {
-	if (!errorImportPath) return null;
-	const [path, className] = errorImportPath.split("#");
-	if (!path || !className) {
-		throw new Error(
-			`Invalid errorImportPath format: "${errorImportPath}". Expected "path/to/module#ErrorClassName"`,
-		);
-	}
-	return { path, className };
+// A frozen copy of a row to cache and the relations read with it, so that no
+// caller can change what the others get. The row Prisma returned is left as it
+// is. Dates, Decimals and Bytes are shared, not copied or frozen.
+const frozenCopy = <A>(row: A): A => {
+  if (Array.isArray(row)) return Object.freeze(row.map(frozenCopy)) as A
+  if (row !== null && typeof row === "object" && Object.getPrototypeOf(row) === Object.prototype) {
+    const copy: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(row)) copy[key] = frozenCopy(value)
+    return Object.freeze(copy) as A
+  }
+  return row
+}
+
+// A model delegate method, as far as the identity map calls it
+type IdentityMapMethod = (args: unknown) => Promise<unknown>
+
+/**
+ * Internal helper to add the identity map to a transaction client.
+ * Raw queries can write anything, including the savepoint statements of
+ * nested transactions, so they clear the whole map. Cached reads resolve to
+ * the frozen copy in the map, on the read that caches it too.
+ */
+const withIdentityMap = (
+  txClient: PrismaNamespace.TransactionClient,
+  identityMap: IdentityMap
+): PrismaNamespace.TransactionClient =>
+  new Proxy(txClient, {
+    get(target, prop) {
+      const value: unknown = Reflect.get(target, prop)
+      if (typeof prop !== "string") return value
+      if (prop.startsWith("$")) {
+        return typeof value === "function"
+          ? (...args: Array<unknown>) => {
+              clearIdentityMap(identityMap)
+              return value.apply(target, args)
+            }
+          : value
+      }
+      if (identityMapModels[prop] === undefined || value === null || typeof value !== "object") return value
+      return new Proxy(value, {
+        get(delegate, method) {
+          const property: unknown = Reflect.get(delegate, method)
+          if (typeof property !== "function") return property
+          const fn: IdentityMapMethod = (args) => property.call(delegate, args)
+          if (method === "findUnique" || method === "findUniqueOrThrow") {
+            return (args: IdentityMapArgs | undefined) => {
+              const key = identityKey(prop, args)
+              if (key === undefined) return fn(args)
+              const cached = identityMap.rows.get(key)
+              if (cached !== undefined) return Promise.resolve(cached.row)
+              const writes = identityMap.writes
+              return fn(args).then((row) => {
+                if (row === null) return row
+                const cachedRow = frozenCopy(row)
+                // A write that ran meanwhile may have changed the row
+                if (identityMap.writes === writes) {
+                  identityMap.rows.set(key, { row: cachedRow, models: selectedModels(prop, args) })
+                }
+                return cachedRow
+              })
+            }
+          }
+          if (typeof method === "string" && identityMapWrites.has(method)) {
+            // Invalidated before the write, for the reads that follow it, and
+            // after it, for the rows cached by reads that ran across it
+            return (args: unknown) => {
+              invalidateWrite(identityMap, prop, args)
+              return fn(args).finally(() => invalidateWrite(identityMap, prop, args))
+            }
+          }
+          return property
+        }
+      })
+    }
+  })
+`;
 }
 
 async function generateUnifiedService(
@@ -650,18 +3235,47 @@ async function generateUnifiedService(
 	clientImportPath: string,
 	errorImportPath: string | undefined,
 	enableTelemetry: boolean,
+	provider: string,
+	errorDefects: string[],
+	errorClasses: ErrorClassesMode,
+	errorTable: ErrorTable,
+	errorArgs: ErrorArgsConfig,
+	transactionOptionsConflict: TransactionOptionsConflictPolicy,
+	transactionConcurrency: TransactionConcurrencyPolicy,
+	contextTagPrefix: string,
+	transactionIdentityMap: boolean,
 ) {
 	const customError = parseErrorImportPath(errorImportPath);
+	const includeArgs = errorArgs !== null;
 	const rawSqlOperations = generateRawSqlOperations(
 		customError,
 		enableTelemetry,
 	);
 	const modelTypeAliases = generateModelTypeAliases(models);
-	const prismaInterface = generatePrismaInterface(models, customError);
+	const prismaInterface = generatePrismaInterface(
+		models,
+		customError,
+		transactionOptionsConflict,
+	);
 	const modelOperations = generateModelOperations(
 		models,
 		customError,
+		errorTable,
 		enableTelemetry,
+		includeArgs,
+	);
+	const transactionHelpers = generateTransactionHelpers(
+		customError,
+		savepointStatements(provider),
+		transactionOptionsConflict,
+	);
+	const identityMap = generateIdentityMap(models, transactionIdentityMap);
+	const errorMapperService = generateErrorMapperService(
+		models,
+		customError,
+		errorTable,
+		includeArgs,
+		contextTagPrefix,
 	);
 
 	// Generate different content based on whether custom error is configured
@@ -673,7 +3287,15 @@ async function generateUnifiedService(
 				modelTypeAliases,
 				prismaInterface,
 				modelOperations,
+				transactionHelpers,
+				generateTransactionApiErrors("data", transactionOptionsConflict),
+				identityMap,
+				generateCustomErrorMappers(),
+				errorMapperService,
 				enableTelemetry,
+				transactionOptionsConflict,
+				transactionConcurrency,
+				contextTagPrefix,
 			)
 		: generateDefaultErrorService(
 				clientImportPath,
@@ -681,7 +3303,37 @@ async function generateUnifiedService(
 				modelTypeAliases,
 				prismaInterface,
 				modelOperations,
+				transactionHelpers,
+				identityMap,
+				errorClasses,
+				errorArgs ? generateErrorArgs(errorArgs, errorClasses) : "",
+				generateKnownErrors(errorTable, errorClasses, includeArgs),
+				generateClientErrors(
+					errorDefects,
+					errorClasses,
+					includeArgs,
+					transactionConcurrency,
+				),
+				generateTransactionApiErrors(errorClasses, transactionOptionsConflict),
+				errorClasses !== "data"
+					? generateErrorSchema(
+							errorTable,
+							errorDefects,
+							errorClasses,
+							transactionConcurrency,
+							transactionOptionsConflict,
+						)
+					: "",
+				generateErrorUnions(errorTable),
+				generateModelErrorTypes(models, errorTable),
+				generateErrorCategories(errorTable, errorDefects),
+				generateErrorMeta(models, errorTable),
+				generateErrorMappers(models, errorTable, errorClasses, includeArgs),
+				errorMapperService,
 				enableTelemetry,
+				transactionOptionsConflict,
+				transactionConcurrency,
+				contextTagPrefix,
 			);
 
 	const outputPath = path.join(outputDir, "index.ts");
@@ -700,7 +3352,8 @@ async function generateUnifiedService(
 
 /**
  * Generate service with custom user-provided error class.
- * All operations use a single error type and a simple mapError function.
+ * Model operations use the custom module's category mappers, falling back to
+ * mapPrismaError; raw and transaction operations use mapPrismaError.
  */
 function generateCustomErrorService(
 	customError: { path: string; className: string },
@@ -709,13 +3362,22 @@ function generateCustomErrorService(
 	modelTypeAliases: string,
 	prismaInterface: string,
 	modelOperations: string,
+	transactionHelpers: string,
+	transactionApiErrors: string,
+	identityMap: string,
+	customErrorMappers: string,
+	errorMapperService: string,
 	enableTelemetry: boolean,
+	transactionOptionsConflict: TransactionOptionsConflictPolicy,
+	transactionConcurrency: TransactionConcurrencyPolicy,
+	contextTagPrefix: string,
 ): string {
 	const _errorType = customError.className;
 	return `${header}
-import { Context, Effect, Exit, Layer, Option, Scope } from "effect"
+import { Cause, Clock, Context, Data, Deferred, Effect, Exit, FiberRef, Layer, Option, Schedule, Scope } from "effect"
 import { Prisma as PrismaNamespace, PrismaClient as BasePrismaClient } from "${clientImportPath}"
 import { ${customError.className}, mapPrismaError } from "${customError.path}"
+import * as CustomErrors from "${customError.path}"
 
 // ============================================================================
 // Type aliases for model operations (performance optimization)
@@ -727,6 +3389,24 @@ ${modelTypeAliases}
 // Symbol used to identify intentional rollbacks vs actual errors
 const ROLLBACK = Symbol.for("prisma.effect.rollback")
 
+// Thrown by a transaction client used after its transaction committed or rolled back
+class TransactionClosed extends Error {
+  constructor() {
+    super("Transaction already closed: the transaction client was used after its commit or rollback")
+  }
+}
+${
+	transactionConcurrency === "fail"
+		? `
+// Thrown for an operation started while another one runs on the same transaction client
+class TransactionBusy extends Error {
+  constructor() {
+    super("Transaction busy: another operation is running on the transaction client")
+  }
+}
+`
+		: ""
+}
 // Type for the flat transaction client with commit/rollback control
 type FlatTransactionClient = PrismaNamespace.TransactionClient & {
   $commit: () => Promise<void>
@@ -758,7 +3438,7 @@ type TransactionOptions = {
  *   transactionOptions: { isolationLevel: "Serializable", timeout: 10000 }
  * })
  */
-export class PrismaClient extends Context.Tag("PrismaClient")<
+export class PrismaClient extends Context.Tag(${contextTagKey(contextTagPrefix, "PrismaClient")})<
   PrismaClient,
   BasePrismaClient
 >() {
@@ -836,25 +3516,96 @@ export class PrismaClient extends Context.Tag("PrismaClient")<
  * This service is only available inside \`$transaction\` calls.
  * Use \`Effect.serviceOption(PrismaTransactionClientService)\` to check if you're in a transaction.
  */
-export class PrismaTransactionClientService extends Context.Tag("PrismaTransactionClientService")<
+export class PrismaTransactionClientService extends Context.Tag(${contextTagKey(contextTagPrefix, "PrismaTransactionClientService")})<
   PrismaTransactionClientService,
   PrismaNamespace.TransactionClient
 >() {}
 
+/**
+ * Context tag for metadata about the current transaction, available wherever
+ * \`PrismaTransactionClientService\` is. The id and depth are also added to the
+ * log annotations and spans of everything that runs in the transaction.
+ *
+ * @example
+ * const info = yield* PrismaTransactionInfo
+ * yield* Effect.log(\`write in transaction \${info.id} at depth \${info.depth}\`)
+ */
+export class PrismaTransactionInfo extends Context.Tag(${contextTagKey(contextTagPrefix, "PrismaTransactionInfo")})<
+  PrismaTransactionInfo,
+  {
+    /** Generated id of the top-level transaction, shared by nested transactions */
+    readonly id: string
+    /** Nesting depth: 1 for the top-level transaction, 2+ for savepoints */
+    readonly depth: number
+    /** When the top-level transaction began, in epoch milliseconds (from Clock) */
+    readonly startedAt: number
+    /** Isolation level requested for the transaction (undefined = client default) */
+    readonly isolationLevel: PrismaNamespace.TransactionIsolationLevel | undefined
+    /** Timeout (ms) requested for the transaction (undefined = client default) */
+    readonly timeout: number | undefined
+    /** Whether it was started with $isolatedTransaction / $isolatedTransactionWith */
+    readonly isolated: boolean
+  }
+>() {}
+
 // Re-export the custom error type for convenience
 export { ${customError.className} }
 
 // Use the user-provided error mapper
 const mapError = mapPrismaError
 
+// ============================================================================
+// Operation category mappers
+// The custom error module may export a mapper per category (mapFindError,
+// mapCreateError, ...); categories without one fall back to mapPrismaError.
+// ============================================================================
+
+${customErrorMappers}
+
+${errorMapperService}
+
+// One permit per transaction client begun by $begin. A transaction has a single
+// connection, so its operations run one at a time.
+const transactionPermits = new WeakMap<PrismaNamespace.TransactionClient, Effect.Semaphore>()
+${
+	transactionConcurrency === "fail"
+		? `
+// Handed to an operation that finds the transaction client busy: the operation's
+// own error mapper turns the TransactionBusy it throws into its typed error
+const busyClient = new Proxy({} as PrismaNamespace.TransactionClient, {
+  get() {
+    throw new TransactionBusy()
+  },
+})
+`
+		: ""
+}
 /**
- * Helper to get the current client - either the transaction client if in a transaction,
- * or the root client if not. Uses Effect.serviceOption to detect transaction context.
+ * Helper to run an operation with the current client - either the transaction client
+ * if in a transaction, or the root client if not. Uses Effect.serviceOption to detect
+ * transaction context. ${
+	transactionConcurrency === "fail"
+		? "Operations on a transaction client that is already running one get a client that fails them."
+		: "Operations on a transaction client wait for each other, outside transactions they run concurrently."
+}
  */
-const clientOrTx = (client: BasePrismaClient) => Effect.map(
-  Effect.serviceOption(PrismaTransactionClientService),
-  Option.getOrElse(() => client),
-);
+const clientOrTx = <A, E>(
+  client: BasePrismaClient,
+  use: (client: BasePrismaClient | PrismaNamespace.TransactionClient) => Effect.Effect<A, E>
+): Effect.Effect<A, E> =>
+  Effect.flatMap(Effect.serviceOption(PrismaTransactionClientService), (txClient) => {
+    if (Option.isNone(txClient)) return use(client)
+    const permit = transactionPermits.get(txClient.value)
+    if (!permit) return use(txClient.value)
+    return ${
+			transactionConcurrency === "fail"
+				? `Effect.flatMap(
+      permit.withPermitsIfAvailable(1)(use(txClient.value)),
+      Option.match({ onNone: () => use(busyClient), onSome: Effect.succeed })
+    )`
+				: "permit.withPermits(1)(use(txClient.value))"
+		}
+  })
 
 /**
  * Like Effect.acquireUseRelease, but allows the release function to fail.
@@ -892,7 +3643,7 @@ const acquireUseReleaseWithErrors = <A, E, R, A2, E2, R2, X, E3, R3>(
   );
 
 ${prismaInterface}
-
+${identityMap}
 /**
  * Internal helper to begin a callback-free interactive transaction.
  * Returns a transaction client with $commit and $rollback methods.
@@ -900,6 +3651,7 @@ ${prismaInterface}
  */
 const $begin = (
   client: BasePrismaClient,
+  mapError: PrismaErrorMapperFn<${customError.className}>,
   options?: {
     maxWait?: number
     timeout?: number
@@ -923,7 +3675,9 @@ const $begin = (
     })
 
     // Start the transaction - Prisma will wait on txPromise before committing
+    let started = false
     const tx = client.$transaction((txClient) => {
+      started = true
       setTxClient(txClient)
       return txPromise
     }, options).catch((e) => {
@@ -932,21 +3686,42 @@ const $begin = (
       throw e
     })
 
-    // Once we have the transaction client, wrap it with commit/rollback methods
+    // A transaction that fails to start (e.g. maxWait exceeded) never calls the
+    // callback, so its error has to resume the effect from here
+    tx.catch((error) => {
+      if (!started) resume(Effect.fail(startError(error, mapError)))
+    })
+
+    // Once we have the transaction client, wrap it with commit/rollback methods.
+    // After either of them, the client fails operations with TransactionClosed
+    // instead of running them in a transaction that is being committed or rolled back.
     txClientPromise.then((innerTx) => {
-      const proxy = new Proxy(innerTx, {
+      let closed = false${
+				identityMap
+					? `
+      // The identity map is discarded when the transaction commits or rolls back
+      const identityMap = makeIdentityMap()`
+					: ""
+			}
+      const proxy = new Proxy(${identityMap ? "withIdentityMap(innerTx, identityMap)" : "innerTx"}, {
         get(target, prop) {
-          if (prop === "$commit") return () => { commit(); return tx }
-          if (prop === "$rollback") return () => { rollback(); return tx }
+          if (prop === "$commit") return () => { closed = true;${identityMap ? " clearIdentityMap(identityMap);" : ""} commit(); return tx }
+          if (prop === "$rollback") return () => { closed = true;${identityMap ? " clearIdentityMap(identityMap);" : ""} rollback(); return tx }
+          if (closed && typeof prop === "string") throw new TransactionClosed()
           return target[prop as keyof typeof target]
         },
       }) as FlatTransactionClient
+      transactionPermits.set(proxy, Effect.unsafeMakeSemaphore(1))
       resume(Effect.succeed(proxy))
     }).catch((error) => {
       resume(Effect.fail(mapError(error, "$transaction", "Prisma")))
     })
   })
 
+${transactionApiErrors}
+
+${transactionHelpers}
+
 /**
  * The main Prisma service with all database operations.
  * Provides type-safe, effectful access to your Prisma models.
@@ -963,6 +3738,16 @@ const $begin = (
  */
 const makePrismaService = Effect.gen(function* () {
   const client = yield* PrismaClient;
+  // Error mappers provided at runtime, else the generated defaults
+  const mappers = Option.getOrElse(
+    yield* Effect.serviceOption(PrismaErrorMapper),
+    () => defaultErrorMappers
+  );
+
+  // Model operations, shared by the service and its prisma.tx view
+  const models: PrismaModelOperations = {
+      ${modelOperations}
+  };
 
   const prismaService: IPrismaService = {
       client,
@@ -973,6 +3758,10 @@ const makePrismaService = Effect.gen(function* () {
        * This implementation uses a callback-free transaction pattern that keeps the effect
        * running in the same fiber as the parent, preserving Ref, FiberRef, and Context access.
        *
+       * When called inside another transaction, the effect runs in a savepoint:
+       * if it fails, only its own writes are rolled back, and the outer transaction
+       * can catch the error and carry on.
+       *
        * Uses default transaction options from PrismaClient constructor.
        * For custom options, use \`$transactionWith\`.
        *
@@ -988,42 +3777,13 @@ const makePrismaService = Effect.gen(function* () {
       $transaction: ${enableTelemetry ? 'Effect.fn("Prisma.$transaction")' : "Effect.fnUntraced"}(function* (effect) {
           const currentTx = yield* Effect.serviceOption(PrismaTransactionClientService);
 
-          // If already in a transaction, just run the effect
+          // If already in a transaction, run the effect inside a savepoint
           if (Option.isSome(currentTx)) {
-            // have to get this to pass the Exclude type
-            return yield* (effect as Effect.Effect<
-            Effect.Effect.Success<typeof effect>,
-            Effect.Effect.Error<typeof effect>,
-            Exclude<
-              Effect.Effect.Context<typeof effect>,
-              PrismaTransactionClientService
-            >
-          >);
+            return yield* runInSavepoint(currentTx.value, mappers.mapError, effect);
           }
 
-          // Otherwise, start a new transaction
-          return yield* acquireUseReleaseWithErrors(
-            // Acquire: begin a new transaction with default options
-            $begin(client),
-
-            // Use: run the effect with the transaction client injected
-            (txClient) =>
-              effect.pipe(
-                Effect.provideService(PrismaTransactionClientService, txClient)
-              ),
-
-            // Release: commit on success, rollback on failure/interruption
-            (txClient, exit) =>
-              Exit.isSuccess(exit)
-                ? Effect.tryPromise({
-                    try: () => txClient.$commit(),
-                    catch: (error) => mapError(error, "$commit", "Prisma")
-                  }).pipe(Effect.withSpan("txClient.$commit"))
-                : Effect.tryPromise({
-                    try: () => txClient.$rollback(),
-                    catch: (error) => mapError(error, "$rollback", "Prisma")
-                  }).pipe(Effect.withSpan("txClient.$rollback"))
-          );
+          // Otherwise, start a new transaction with default options
+          return yield* runInTransaction(client, mappers.mapError, effect);
         }),
 
       /**
@@ -1034,6 +3794,7 @@ const makePrismaService = Effect.gen(function* () {
        * running in the same fiber as the parent, preserving Ref, FiberRef, and Context access.
        *
        * Options passed here override any defaults set in PrismaClient constructor.
+${nestedTransactionWithDoc(transactionOptionsConflict)}
        *
        * @example
        * // Override default isolation level for this transaction
@@ -1049,35 +3810,124 @@ const makePrismaService = Effect.gen(function* () {
       $transactionWith: ${enableTelemetry ? 'Effect.fn("Prisma.$transactionWith")' : "Effect.fnUntraced"}(function* (effect, options) {
           const currentTx = yield* Effect.serviceOption(PrismaTransactionClientService);
 
-          // If already in a transaction, just run the effect
+          // If already in a transaction, run the effect inside a savepoint
           if (Option.isSome(currentTx)) {
-            return yield* effect;
+            return yield* ${nestedTransactionCall(transactionOptionsConflict, "runInSavepoint(currentTx.value, mappers.mapError, effect)", "runInTransaction(client, mappers.mapError, effect, options, true)")};
           }
 
           // Otherwise, start a new transaction
-          return yield* acquireUseReleaseWithErrors(
-            // Acquire: begin a new transaction
-            // Prisma merges per-call options with constructor defaults internally
-            $begin(client, options),
-
-            // Use: run the effect with the transaction client injected
-            (txClient) =>
-              effect.pipe(
-                Effect.provideService(PrismaTransactionClientService, txClient)
-              ),
-
-            // Release: commit on success, rollback on failure/interruption
-            (txClient, exit) =>
-              Exit.isSuccess(exit)
-                ? Effect.tryPromise({
-                    try: () => txClient.$commit(),
-                    catch: (error) => mapError(error, "$commit", "Prisma")
-                  }).pipe(Effect.withSpan("txClient.$rollback"))
-                : Effect.tryPromise({
-                    try: () => txClient.$rollback(),
-                    catch: (error) => mapError(error, "$rollback", "Prisma")
-                  }).pipe(Effect.withSpan("txClient.$rollback"))
+          // Prisma merges per-call options with constructor defaults internally
+          return yield* runInTransaction(client, mappers.mapError, effect, options);
+        }),
+
+      /**
+       * Execute an effect within a database transaction, retried with \`schedule\`
+       * when the transaction fails on a write conflict or deadlock (P2034).
+       * Each retry re-runs the whole effect in a fresh transaction, so it must
+       * not have side effects outside the database.
+       *
+       * When called inside another transaction, the effect runs once in a
+       * savepoint: a conflict aborts the whole outer transaction, so only the
+       * outermost transaction can be retried.
+       *
+       * @example
+       * const result = yield* prisma.$transactionRetry(
+       *   transferFunds(from, to, amount),
+       *   Schedule.exponential("10 millis").pipe(Schedule.intersect(Schedule.recurs(3))),
+       *   { isolationLevel: "Serializable" }
+       * )
+       */
+      $transactionRetry: ${enableTelemetry ? 'Effect.fn("Prisma.$transactionRetry")' : "Effect.fnUntraced"}(function* (effect, schedule, options) {
+          const currentTx = yield* Effect.serviceOption(PrismaTransactionClientService);
+
+          const retried = (isolated: boolean) => runInTransaction(client, mappers.mapError, effect, options, isolated).pipe(
+            Effect.retry({ schedule, while: isTransactionConflict })
           );
+
+          // Never retry a nested transaction, the outer transaction owns the retry
+          if (Option.isSome(currentTx)) {
+            return yield* ${nestedTransactionCall(transactionOptionsConflict, "runInSavepoint(currentTx.value, mappers.mapError, effect)", "retried(true)")};
+          }
+
+          return yield* retried(false);
+        }),
+
+      /**
+       * Execute operations in one non-interactive transaction, using Prisma's
+       * array form of \`$transaction\`. All queries are sent in a single round
+       * trip, without holding a connection while Effect code runs in between.
+       * Returns the results as a tuple; a failure is mapped by the mapper of
+       * the operation that failed, and rolls back the whole batch.
+       *
+       * Each operation must be a single generated operation, e.g.
+       * \`prisma.user.create(...)\`. Inside a transaction, the operations run
+       * in order in the current transaction.
+       *
+       * @example
+       * const [user, post] = yield* prisma.$batch([
+       *   prisma.user.create({ data: { email } }),
+       *   prisma.post.create({ data: { title, authorId } })
+       * ])
+       */
+      $batch: ${enableTelemetry ? 'Effect.fn("Prisma.$batch")' : "Effect.fnUntraced"}(function* (operations, options) {
+          const currentTx = yield* Effect.serviceOption(PrismaTransactionClientService);
+
+          if (Option.isSome(currentTx)) {
+            return yield* ${nestedTransactionCall(transactionOptionsConflict, "allOperations(operations, operations, 1)", "runBatch(client, operations, options)")};
+          }
+
+          return yield* runBatch(client, operations, options);
+        }),
+
+      /**
+       * Begin a transaction whose lifetime is the current Scope, e.g. a
+       * request-scoped Layer or the lifetime of a Stream. Effects run through
+       * the returned handle's \`run\` are part of the transaction, which commits
+       * when the scope closes successfully and rolls back otherwise.
+       *
+       * Yield the handle's \`commit\` before the scope closes to get commit errors
+       * as typed errors. Only the implicit commit or rollback on scope close is
+       * a defect when it fails (the mapped error, e.g.
+       * PrismaTransactionExpiredError), because scope finalizers cannot fail.
+       *
+       * Always begins a new top-level transaction, even when called inside
+       * another transaction.
+       *
+       * @example
+       * const RequestTransaction = Layer.scoped(
+       *   CurrentTransaction,
+       *   Effect.flatMap(Prisma, (prisma) => prisma.$transactionScoped())
+       * )
+       *
+       * // Later, anywhere in the request
+       * const tx = yield* CurrentTransaction
+       * yield* tx.run(prisma.user.create({ data }))
+       */
+      $transactionScoped: ${enableTelemetry ? 'Effect.fn("Prisma.$transactionScoped")' : "Effect.fnUntraced"}(function* (options) {
+          return yield* runScopedTransaction(client, mappers.mapError, options);
+        }),
+
+      /**
+       * Run a multi-step workflow whose steps commit independently. Each
+       * step's \`run\` executes in its own isolated transaction. When a step
+       * fails, the \`compensate\` effects of the completed steps run in reverse
+       * order, each in its own transaction, and the saga fails with the step's
+       * error, or with PrismaSagaCompensationError if compensations failed too.
+       *
+       * @example
+       * const [order, payment] = yield* prisma.$saga([
+       *   {
+       *     run: prisma.order.create({ data }),
+       *     compensate: (order) => prisma.order.delete({ where: { id: order.id } })
+       *   },
+       *   {
+       *     run: chargeCard(card, total),
+       *     compensate: (payment) => refund(payment)
+       *   }
+       * ])
+       */
+      $saga: ${enableTelemetry ? 'Effect.fn("Prisma.$saga")' : "Effect.fnUntraced"}(function* (steps) {
+          return yield* runSaga(client, mappers.mapError, steps);
         }),
 
       /**
@@ -1109,23 +3959,7 @@ const makePrismaService = Effect.gen(function* () {
        */
       $isolatedTransaction: ${enableTelemetry ? 'Effect.fn("Prisma.$isolatedTransaction")' : "Effect.fnUntraced"}(function* (effect) {
           // Always create a fresh transaction
-          return yield* acquireUseReleaseWithErrors(
-            $begin(client),
-            (txClient) =>
-              effect.pipe(
-                Effect.provideService(PrismaTransactionClientService, txClient)
-              ),
-            (txClient, exit) =>
-              Exit.isSuccess(exit)
-                ? Effect.tryPromise({
-                    try: () => txClient.$commit(),
-                    catch: (error) => mapError(error, "$commit", "Prisma")
-                  }).pipe(Effect.withSpan("txClient.$rollback"))
-                : Effect.tryPromise({
-                    try: () => txClient.$rollback(),
-                    catch: (error) => mapError(error, "$rollback", "Prisma")
-                  }).pipe(Effect.withSpan("txClient.$rollback"))
-          );
+          return yield* runInTransaction(client, mappers.mapError, effect, undefined, true);
         }),
 
       /**
@@ -1157,33 +3991,21 @@ const makePrismaService = Effect.gen(function* () {
        */
       $isolatedTransactionWith: ${enableTelemetry ? 'Effect.fn("Prisma.$isolatedTransactionWith")' : "Effect.fnUntraced"}(function* (effect, options) {
           // Always create a fresh transaction
-          return yield* acquireUseReleaseWithErrors(
-            $begin(client, options),
-            (txClient) =>
-              effect.pipe(
-                Effect.provideService(PrismaTransactionClientService, txClient)
-              ),
-            (txClient, exit) =>
-              Exit.isSuccess(exit)
-                ? Effect.tryPromise({
-                    try: () => txClient.$commit(),
-                    catch: (error) => mapError(error, "$commit", "Prisma")
-                  }).pipe(Effect.withSpan("txClient.$rollback"))
-                : Effect.tryPromise({
-                    try: () => txClient.$rollback(),
-                    catch: (error) => mapError(error, "$rollback", "Prisma")
-                  }).pipe(Effect.withSpan("txClient.$rollback"))
-          );
+          return yield* runInTransaction(client, mappers.mapError, effect, options, true);
         }),
       ${rawSqlOperations}
 
-      ${modelOperations}
+      ...models,
+
+      // The same operations: at runtime they resolve the transaction client
+      // with clientOrTx, and the interface requires it in R
+      tx: models,
   };
 
   return prismaService;
 });
 
-export class Prisma extends Context.Tag("Prisma")<Prisma, IPrismaService>() {
+export class Prisma extends Context.Tag(${contextTagKey(contextTagPrefix, "Prisma")})<Prisma, IPrismaService>() {
   /**
    * Effect that constructs the Prisma service.
    * Used internally by layer constructors.
@@ -1191,68 +4013,643 @@ export class Prisma extends Context.Tag("Prisma")<Prisma, IPrismaService>() {
   static make: Effect.Effect<IPrismaService, never, PrismaClient> = makePrismaService;
   static Default: Layer.Layer<Prisma, never, PrismaClient> = Layer.effect(Prisma, this.make);
 
-  /**
-   * Create a complete Prisma layer with the given PrismaClient options.
-   * This is the recommended way to create a Prisma layer - it bundles both
-   * PrismaClient and Prisma service together.
-   *
-   * Pass options directly - the signature matches PrismaClient's constructor.
-   * Prisma 6: all options are optional
-   * Prisma 7: requires either \`adapter\` or \`accelerateUrl\`
-   *
-   * @example
-   * // Prisma 6
-   * const MainLayer = Prisma.layer({ datasourceUrl: process.env.DATABASE_URL })
-   *
-   * // Prisma 7 with adapter
-   * const MainLayer = Prisma.layer({ adapter: myAdapter })
-   *
-   * // With transaction options
-   * const MainLayer = Prisma.layer({
-   *   adapter: myAdapter,
-   *   transactionOptions: { isolationLevel: "Serializable" }
-   * })
-   *
-   * // Use it
-   * Effect.runPromise(program.pipe(Effect.provide(MainLayer)))
-   */
-  static layer: (
-    ...args: ConstructorParameters<typeof BasePrismaClient>
-  ) => Layer.Layer<Prisma | PrismaClient, never, never> = (...args) => this.Default.pipe(
-    Layer.provideMerge(PrismaClient.layer(...args))
-  );
+  /**
+   * Run an effect once the outermost transaction has committed, e.g. to publish
+   * domain events or invalidate caches only after the writes are durable.
+   * Hooks registered in a savepoint that rolls back are discarded.
+   * Outside a transaction, the effect runs immediately.
+   *
+   * @example
+   * yield* prisma.$transaction(
+   *   Effect.gen(function* () {
+   *     const order = yield* prisma.order.create({ data })
+   *     yield* Prisma.onCommit(events.publish(new OrderPlaced({ id: order.id })))
+   *   })
+   * )
+   */
+  static onCommit: <A, R>(effect: Effect.Effect<A, never, R>) => Effect.Effect<void, never, R> = onCommit;
+
+  /**
+   * Run an effect once the current transaction (or savepoint) has rolled back.
+   * Outside a transaction, this does nothing.
+   */
+  static onRollback: <A, R>(effect: Effect.Effect<A, never, R>) => Effect.Effect<void, never, R> = onRollback;
+
+  /**
+   * Create a complete Prisma layer with the given PrismaClient options.
+   * This is the recommended way to create a Prisma layer - it bundles both
+   * PrismaClient and Prisma service together.
+   *
+   * Pass options directly - the signature matches PrismaClient's constructor.
+   * Prisma 6: all options are optional
+   * Prisma 7: requires either \`adapter\` or \`accelerateUrl\`
+   *
+   * @example
+   * // Prisma 6
+   * const MainLayer = Prisma.layer({ datasourceUrl: process.env.DATABASE_URL })
+   *
+   * // Prisma 7 with adapter
+   * const MainLayer = Prisma.layer({ adapter: myAdapter })
+   *
+   * // With transaction options
+   * const MainLayer = Prisma.layer({
+   *   adapter: myAdapter,
+   *   transactionOptions: { isolationLevel: "Serializable" }
+   * })
+   *
+   * // Use it
+   * Effect.runPromise(program.pipe(Effect.provide(MainLayer)))
+   */
+  static layer: (
+    ...args: ConstructorParameters<typeof BasePrismaClient>
+  ) => Layer.Layer<Prisma | PrismaClient, never, never> = (...args) => this.Default.pipe(
+    Layer.provideMerge(PrismaClient.layer(...args))
+  );
+
+  /**
+   * Create a complete Prisma layer where PrismaClient options are computed via an Effect.
+   * This is useful when you need to fetch configuration or create adapters using Effect.
+   *
+   * @example
+   * // Get config from a service
+   * const MainLayer = Prisma.layerEffect(
+   *   Effect.gen(function* () {
+   *     const config = yield* ConfigService
+   *     return { adapter: createAdapter(config.databaseUrl) }
+   *   })
+   * )
+   *
+   * // With transaction options
+   * const MainLayer = Prisma.layerEffect(
+   *   Effect.gen(function* () {
+   *     return {
+   *       adapter: myAdapter,
+   *       transactionOptions: { isolationLevel: "Serializable" }
+   *     }
+   *   })
+   * )
+   */
+  static layerEffect: <R, E>(
+    optionsEffect: Effect.Effect<ConstructorParameters<typeof BasePrismaClient>[0], E, R>
+  ) => Layer.Layer<Prisma | PrismaClient, E, Exclude<R, Scope.Scope>> = (optionsEffect) => this.Default.pipe(
+    Layer.provideMerge(PrismaClient.layerEffect(optionsEffect))
+  );
+}
+
+`;
+}
+
+// The `args` field of every tagged error with errorIncludeArgs
+const argsField = (errorClasses: ErrorClassesMode): ErrorField => ({
+	name: "args",
+	type: "PrismaErrorArgs | undefined",
+	schema:
+		errorClasses === "httpApi"
+			? "ServerOnly(Schema.is(PrismaErrorArgs))"
+			: "Schema.UndefinedOr(PrismaErrorArgs)",
+	doc: "Sanitized arguments of the failed operation, for debugging",
+});
+
+/**
+ * Generate PrismaErrorArgs and the helper the mappers use to build it from the
+ * operation arguments: where with redacted field values, and the data keys.
+ */
+function generateErrorArgs(
+	errorArgs: NonNullable<ErrorArgsConfig>,
+	errorClasses: ErrorClassesMode,
+): string {
+	const type =
+		errorClasses === "data"
+			? `export type PrismaErrorArgs = {
+  /** The where filter, with redacted field values */
+  readonly where?: unknown
+  /** Field names of \`data\` (or of its items for batch operations) */
+  readonly dataKeys?: ReadonlyArray<string>
+}`
+			: `export const PrismaErrorArgs = Schema.Struct({
+  /** The where filter, with redacted field values */
+  where: Schema.optional(Schema.Unknown),
+  /** Field names of \`data\` (or of its items for batch operations) */
+  dataKeys: Schema.optional(Schema.Array(Schema.String)),
+})
+
+export type PrismaErrorArgs = typeof PrismaErrorArgs.Type`;
+
+	const parts = [
+		...(errorArgs.where
+			? [`...(args.where !== undefined ? { where: redact(args.where) } : {}),`]
+			: []),
+		...(errorArgs.dataKeys
+			? [
+					`...(args.data !== undefined ? { dataKeys: dataKeys(args.data) } : {}),`,
+				]
+			: []),
+	];
+
+	return `/** Sanitized arguments of a failed operation (errorIncludeArgs) */
+${type}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  (Object.getPrototypeOf(value) === Object.prototype || Object.getPrototypeOf(value) === null)
+${
+	errorArgs.where
+		? `
+// Fields whose values are replaced in error args (errorRedactFields)
+const redactedFields: ReadonlyArray<string> = ${JSON.stringify(errorArgs.redact)}
+
+// Copies plain objects and arrays, replacing the values of redacted fields
+const redact = (value: unknown): unknown =>
+  Array.isArray(value)
+    ? value.map(redact)
+    : isPlainObject(value)
+      ? Object.fromEntries(
+          Object.entries(value).map(([key, v]) => [key, redactedFields.includes(key) ? "[REDACTED]" : redact(v)])
+        )
+      : value
+`
+		: ""
+}${
+	errorArgs.dataKeys
+		? `
+const dataKeys = (data: unknown): ReadonlyArray<string> => [
+  ...new Set((Array.isArray(data) ? data : [data]).flatMap((item) => (isPlainObject(item) ? Object.keys(item) : []))),
+]
+`
+		: ""
+}
+const errorArgs = (args: unknown): PrismaErrorArgs | undefined => {
+  if (!isPlainObject(args)) return undefined
+  return {
+${parts.map((part) => `    ${part}`).join("\n")}
+  }
+}`;
+}
+
+/**
+ * Generate a Schema-based error class: the server-only cause (unless the guard
+ * is null), the payload in schema mode, the given fields and, in httpApi mode,
+ * the status annotation.
+ */
+function schemaErrorClass(
+	errorClasses: ErrorClassesMode,
+	name: string,
+	className: string,
+	guard: string | null,
+	fields: string[],
+	status: number,
+	body = " {}",
+): string {
+	const annotations =
+		errorClasses === "httpApi"
+			? `, HttpApiSchema.annotations({ status: ${status} })`
+			: "";
+	const cause = guard ? [`cause: ServerOnly(${guard}),`] : [];
+	return `export class ${name} extends Schema.TaggedError<${className}>()("${className}", {
+${[...cause, ...fields].map((f) => `  ${f}`).join("\n")}
+}${annotations})${body}`;
+}
+
+/**
+ * Generate the errors of the transaction APIs that are not operation errors:
+ * nested transaction option conflicts, failed saga compensations and partial
+ * commits of $transactionAcross. They follow `errorClasses` like the other
+ * errors. In schema and httpApi modes, the errors they wrap stay on the
+ * server, like `cause`, and are typed by redeclaring them on the class.
+ */
+function generateTransactionApiErrors(
+	errorClasses: ErrorClassesMode,
+	transactionOptionsConflict: TransactionOptionsConflictPolicy,
+): string {
+	const serverOnly = "ServerOnly(Schema.is(Schema.Unknown))";
+	const errorClass = (
+		doc: string,
+		name: string,
+		className: string,
+		typeFields: string,
+		schemaFields: string[],
+		body = " {}",
+	) =>
+		`${doc}
+${
+	errorClasses === "data"
+		? `export class ${name} extends Data.TaggedError("${className}")<{${typeFields}
+}> {}`
+		: schemaErrorClass(errorClasses, name, className, null, schemaFields, 500, body)
+}`;
+
+	const optionsConflict =
+		transactionOptionsConflict === "fail"
+			? errorClass(
+					`/**
+ * A nested transaction call requested an option the enclosing transaction does
+ * not provide: a stronger isolation level or a longer timeout, or any explicit
+ * one when the enclosing transaction left it to the client's default. Isolation
+ * and timeout are fixed when a transaction begins, so the nested call cannot
+ * run with the requested options inside it.
+ */`,
+					"PrismaTransactionOptionsConflictError",
+					"PrismaTransactionOptionsConflictError",
+					`
+  option: "isolationLevel" | "timeout"
+  requested: string | number
+  /** The enclosing transaction's value, undefined when it uses the client's default */
+  active: string | number | undefined`,
+					[
+						'option: Schema.Literal("isolationLevel", "timeout"),',
+						"requested: Schema.Union(Schema.String, Schema.Number),",
+						"/** The enclosing transaction's value, undefined when it uses the client's default */",
+						"active: Schema.UndefinedOr(Schema.Union(Schema.String, Schema.Number)),",
+					],
+				)
+			: "";
+
+	const sagaCompensation = errorClass(
+		`/**
+ * A $saga step failed, and so did the compensations of some completed steps,
+ * with an error or a defect: the writes of those steps were not undone.
+ */`,
+		"PrismaSagaCompensationError<E = unknown, E2 = unknown>",
+		"PrismaSagaCompensationError",
+		`
+  /** Index of the step that failed */
+  step: number
+  /** The error of the failed step */
+  error: E
+  /** The failed compensations, in the order they ran (completed steps in reverse) */
+  compensations: ReadonlyArray<{ readonly step: number; readonly error: E2 }>
+  /** The compensations that died, in the order they ran */
+  defects: ReadonlyArray<{ readonly step: number; readonly defect: unknown }>`,
+		[
+			"/** Index of the step that failed */",
+			"step: Schema.Number,",
+			"/** The error of the failed step, kept on the server */",
+			`error: ${serverOnly},`,
+			"/** The failed compensations, in the order they ran (completed steps in reverse) */",
+			`compensations: Schema.Array(Schema.Struct({ step: Schema.Number, error: ${serverOnly} })),`,
+			"/** The compensations that died, in the order they ran */",
+			`defects: Schema.Array(Schema.Struct({ step: Schema.Number, defect: ${serverOnly} })),`,
+		],
+		` {
+  /** The error of the failed step */
+  declare readonly error: E
+  /** The failed compensations, in the order they ran (completed steps in reverse) */
+  declare readonly compensations: ReadonlyArray<{ readonly step: number; readonly error: E2 }>
+}`,
+	);
+
+	const partialCommit = errorClass(
+		`/**
+ * \`$transactionAcross\` failed to commit one of its transactions, after it
+ * committed the ones before it, or then failed to roll back some of the ones
+ * after it. The writes of the \`committed\` participants persist, while the
+ * \`failed\` and \`rolledBack\` ones were undone. The state of the
+ * \`rollbackFailures\` ones is unknown. Participants are named by the keys of
+ * their tags.
+ */`,
+		"PrismaPartialCommitError<E = unknown>",
+		"PrismaPartialCommitError",
+		`
+  /** The participants whose transactions committed, in commit order (none when the first commit failed) */
+  committed: ReadonlyArray<string>
+  /** The participant whose commit failed */
+  failed: string
+  /** The error of the failed commit */
+  error: E
+  /** The participants rolled back after the failed commit */
+  rolledBack: ReadonlyArray<string>
+  /** The participants after the failed commit whose rollback failed too */
+  rollbackFailures: ReadonlyArray<{ readonly participant: string; readonly error: E }>`,
+		[
+			"/** The participants whose transactions committed, in commit order (none when the first commit failed) */",
+			"committed: Schema.Array(Schema.String),",
+			"/** The participant whose commit failed */",
+			"failed: Schema.String,",
+			"/** The error of the failed commit, kept on the server */",
+			`error: ${serverOnly},`,
+			"/** The participants rolled back after the failed commit */",
+			"rolledBack: Schema.Array(Schema.String),",
+			"/** The participants after the failed commit whose rollback failed too */",
+			`rollbackFailures: Schema.Array(Schema.Struct({ participant: Schema.String, error: ${serverOnly} })),`,
+		],
+		` {
+  /** The error of the failed commit */
+  declare readonly error: E
+  /** The participants after the failed commit whose rollback failed too */
+  declare readonly rollbackFailures: ReadonlyArray<{ readonly participant: string; readonly error: E }>
+}`,
+	);
+
+	return [optionsConflict, sagaCompensation, partialCommit]
+		.filter((code) => code !== "")
+		.join("\n\n");
+}
+
+/**
+ * Generate the tagged errors for known request errors: Data.TaggedError classes,
+ * or Schema.TaggedError classes in schema (serializable payload) and httpApi
+ * (annotated with their HTTP status) modes.
+ * PrismaUniqueConstraintError is generic over the fields of the violated key.
+ */
+function generateKnownErrors(
+	errorTable: ErrorTable,
+	errorClasses: ErrorClassesMode,
+	includeArgs: boolean,
+): string {
+	const classes = errorTable.knownErrorClasses.map((c) => {
+		const generic = c.className === "PrismaUniqueConstraintError";
+		const name = generic
+			? `${c.className}<
+  Fields extends ReadonlyArray<string> = ReadonlyArray<string>
+>`
+			: c.className;
+		const fields = [
+			...(c.fields ?? []),
+			...(includeArgs ? [argsField(errorClasses)] : []),
+		];
+
+		if (errorClasses !== "data") {
+			// The schema can't be generic, so the typed fields are redeclared on the class
+			const body = generic
+				? ` {
+${fields
+	.filter((f) => f.type.startsWith("Fields"))
+	.map((f) => `  /** ${f.doc} */\n  declare readonly ${f.name}: ${f.type}`)
+	.join("\n")}
+}`
+				: " {}";
+			return schemaErrorClass(
+				errorClasses,
+				name,
+				c.className,
+				"isPrismaClientKnownRequestError",
+				[
+					...(errorClasses === "schema"
+						? [
+								'/** Prisma error code, e.g. "P2002" */',
+								"code: Schema.String,",
+								"/** Prisma error message */",
+								"message: Schema.String,",
+							]
+						: []),
+					"operation: Schema.String,",
+					"model: Schema.String,",
+					...fields.flatMap((f) => [
+						`/** ${f.doc} */`,
+						`${f.name}: ${f.schema},`,
+					]),
+				],
+				c.status,
+				body,
+			);
+		}
+
+		const typeFields = fields
+			.map((f) => `\n  /** ${f.doc} */\n  ${f.name}: ${f.type}`)
+			.join("");
+		return `export class ${name} extends Data.TaggedError("${c.className}")<{
+  cause: PrismaNamespace.PrismaClientKnownRequestError
+  operation: string
+  model: string${typeFields}
+}> {}`;
+	});
+
+	if (errorClasses === "data") return classes.join("\n\n");
+
+	return `// Kept for logging on the server but encoded as absent, so it never reaches the wire
+const ServerOnly = <A>(guard: (u: unknown) => u is A) =>
+  Schema.optional(
+    Schema.transform(Schema.Undefined, Schema.UndefinedOr(Schema.declare(guard)), {
+      strict: true,
+      decode: () => undefined,
+      encode: () => undefined,
+    })
+  )
+
+${classes.join("\n\n")}`;
+}
+
+/**
+ * Generate a Schema union of every typed error class: PrismaHttpErrors, ready to
+ * be added to an HttpApiGroup or endpoint with `addError`, or PrismaErrorSchema,
+ * e.g. for the error schema of an Rpc.
+ */
+function generateErrorSchema(
+	errorTable: ErrorTable,
+	errorDefects: string[],
+	errorClasses: ErrorClassesMode,
+	transactionConcurrency: TransactionConcurrencyPolicy,
+	transactionOptionsConflict: TransactionOptionsConflictPolicy,
+): string {
+	const classNames = [
+		...errorTable.knownErrorClasses.map((c) => c.className),
+		...clientErrorClasses
+			.map((c) => c.className)
+			.filter((className) => !errorDefects.includes(className)),
+		...transactionErrorClassesFor(transactionConcurrency).map(
+			(c) => c.className,
+		),
+		...(transactionOptionsConflict === "fail"
+			? ["PrismaTransactionOptionsConflictError"]
+			: []),
+		"PrismaSagaCompensationError",
+		"PrismaPartialCommitError",
+	];
+	const members = classNames.map((className) => `  ${className},`).join("\n");
+	if (errorClasses === "httpApi") {
+		return `/** Every Prisma error as a Schema, e.g. for \`HttpApiGroup.make("users").addError(PrismaHttpErrors)\` */
+export const PrismaHttpErrors = Schema.Union(
+${members}
+)
+
+export type PrismaHttpErrors = typeof PrismaHttpErrors.Type`;
+	}
+	return `/** Every Prisma error as a Schema, e.g. for \`Rpc.make("createUser", { error: PrismaErrorSchema })\` */
+export const PrismaErrorSchema = Schema.Union(
+${members}
+)`;
+}
+
+/**
+ * Generate the tagged errors for Prisma client errors without an error code
+ * (validation, initialization, ...) and for transaction lifecycle failures,
+ * plus the mapper shared by all operation mappers.
+ * Classes listed in `errorDefects` are left out and stay defects.
+ */
+function generateClientErrors(
+	errorDefects: string[],
+	errorClasses: ErrorClassesMode,
+	includeArgs: boolean,
+	transactionConcurrency: TransactionConcurrencyPolicy,
+): string {
+	const typed = clientErrorClasses.filter(
+		(c) => !errorDefects.includes(c.className),
+	);
+	const fields = includeArgs ? [argsField(errorClasses)] : [];
+
+	const errorClass = (
+		className: string,
+		causeType: string,
+		guard: string,
+		status: number,
+	) =>
+		errorClasses !== "data"
+			? schemaErrorClass(
+					errorClasses,
+					className,
+					className,
+					guard,
+					[
+						...(errorClasses === "schema"
+							? ["/** Prisma error message */", "message: Schema.String,"]
+							: []),
+						"operation: Schema.String,",
+						"model: Schema.String,",
+						...fields.flatMap((f) => [`/** ${f.doc} */`, `${f.name}: ${f.schema},`]),
+					],
+					status,
+				)
+			: `export class ${className} extends Data.TaggedError("${className}")<{
+  cause: ${causeType}
+  operation: string
+  model: string${fields.map((f) => `\n  /** ${f.doc} */\n  ${f.name}: ${f.type}`).join("")}
+}> {}`;
+
+	const classes = typed
+		.map((c) =>
+			errorClass(
+				c.className,
+				`PrismaNamespace.${c.prismaClass}`,
+				`(u): u is PrismaNamespace.${c.prismaClass} => u instanceof PrismaNamespace.${c.prismaClass}`,
+				c.status,
+			),
+		)
+		.join("\n\n");
+
+	const transactionDocs: Record<string, string> = {
+		PrismaTransactionStartError:
+			"The transaction could not begin, e.g. no connection was free within `maxWait`",
+		PrismaTransactionExpiredError:
+			"The transaction ran longer than its `timeout` and Prisma closed it before the commit",
+		PrismaTransactionClosedError:
+			"An operation used a transaction client after its transaction committed or rolled back",
+		PrismaTransactionConcurrencyError:
+			"An operation ran on a transaction client while another operation was running on it",
+	};
+	// Closed and busy transaction clients throw an Error of their own (see $begin)
+	const thrownByClient = (className: string) =>
+		className === "PrismaTransactionClosedError" ||
+		className === "PrismaTransactionConcurrencyError";
+	const transactionClasses = transactionErrorClassesFor(transactionConcurrency)
+		.map(
+			(c) => `/** ${transactionDocs[c.className]} */
+${errorClass(
+	c.className,
+	thrownByClient(c.className) ? "Error" : "unknown",
+	thrownByClient(c.className)
+		? "(u): u is Error => u instanceof Error"
+		: "Schema.is(Schema.Unknown)",
+	c.status,
+)}`,
+		)
+		.join("\n\n");
+	const busy = transactionConcurrency === "fail";
+
+	const checks = typed
+		.map(
+			(c) => `  if (error instanceof PrismaNamespace.${c.prismaClass}) {
+    return new ${c.className}({ cause: error, operation, model${errorClasses === "schema" ? ", message: error.message" : ""}${includeArgs ? ", args: errorArgs(args)" : ""} });
+  }`,
+		)
+		.join("\n");
+
+	return `${classes}
 
-  /**
-   * Create a complete Prisma layer where PrismaClient options are computed via an Effect.
-   * This is useful when you need to fetch configuration or create adapters using Effect.
-   *
-   * @example
-   * // Get config from a service
-   * const MainLayer = Prisma.layerEffect(
-   *   Effect.gen(function* () {
-   *     const config = yield* ConfigService
-   *     return { adapter: createAdapter(config.databaseUrl) }
-   *   })
-   * )
-   *
-   * // With transaction options
-   * const MainLayer = Prisma.layerEffect(
-   *   Effect.gen(function* () {
-   *     return {
-   *       adapter: myAdapter,
-   *       transactionOptions: { isolationLevel: "Serializable" }
-   *     }
-   *   })
-   * )
-   */
-  static layerEffect: <R, E>(
-    optionsEffect: Effect.Effect<ConstructorParameters<typeof BasePrismaClient>[0], E, R>
-  ) => Layer.Layer<Prisma | PrismaClient, E, Exclude<R, Scope.Scope>> = (optionsEffect) => this.Default.pipe(
-    Layer.provideMerge(PrismaClient.layerEffect(optionsEffect))
-  );
+${transactionClasses}
+
+/**
+ * Errors that can occur on any operation: Prisma client errors that have no
+ * error code, and those of a closed or expired transaction
+ */
+export type PrismaClientError =${typed.map((c) => `\n  | ${c.className}`).join("")}
+  | PrismaTransactionClosedError
+  | PrismaTransactionExpiredError${busy ? "\n  | PrismaTransactionConcurrencyError" : ""}
+
+// Builds the error of a transaction that failed to start or expired before its commit
+const transactionError = (
+  ErrorClass: typeof PrismaTransactionStartError | typeof PrismaTransactionExpiredError,
+  cause: unknown,
+  operation: string
+) =>
+  new ErrorClass({ cause, operation, model: "Prisma"${errorClasses === "schema" ? ", message: cause instanceof Error ? cause.message : String(cause)" : ""}${includeArgs ? ", args: undefined" : ""} })
+
+// An operation ran on a transaction that Prisma closed after its timeout
+const isExpiredTransaction = (error: PrismaNamespace.PrismaClientKnownRequestError): boolean =>
+  error.code === "P2028" && error.message.includes("expired transaction")
+
+// Fallback for errors that are not a PrismaClientKnownRequestError
+const mapClientError = (error: unknown, operation: string, model: string${includeArgs ? ", args: unknown" : ""}): PrismaClientError => {
+  if (error instanceof TransactionClosed) {
+    return new PrismaTransactionClosedError({ cause: error, operation, model${errorClasses === "schema" ? ", message: error.message" : ""}${includeArgs ? ", args: errorArgs(args)" : ""} });
+  }${
+		busy
+			? `
+  if (error instanceof TransactionBusy) {
+    return new PrismaTransactionConcurrencyError({ cause: error, operation, model${errorClasses === "schema" ? ", message: error.message" : ""}${includeArgs ? ", args: errorArgs(args)" : ""} });
+  }`
+			: ""
+	}
+${checks}
+  // Unknown errors are not handled and will be treated as defects
+  throw error;
+}`;
 }
 
-`;
+/**
+ * Generate the error category unions, tag lists and type guards. Client error
+ * classes kept as defects by `errorDefects` and known request error classes
+ * left without codes by the error table are left out.
+ */
+function generateErrorCategories(
+	errorTable: ErrorTable,
+	errorDefects: string[],
+): string {
+	const typed = [
+		...errorTable.knownErrorClasses.map((c) => c.className),
+		...clientErrorClasses
+			.map((c) => c.className)
+			.filter((className) => !errorDefects.includes(className)),
+		...transactionErrorClasses.map((c) => c.className),
+	];
+	const categories = errorCategories
+		.map((category) => {
+			const classes = category.classes.filter((className) =>
+				typed.includes(className),
+			);
+			return `/** ${category.doc} */
+export type ${category.union} =
+${classes.map((className) => `  | ${className}`).join("\n")}
+
+/** Tags of ${category.union}, e.g. for \`Match.tag(...${category.tags}, handler)\` on PrismaError */
+export const ${category.tags} = [
+${classes.map((className) => `  "${className}",`).join("\n")}
+] as const satisfies ReadonlyArray<${category.union}["_tag"]>
+
+/** Whether an error is a ${category.union}, e.g. for \`Match.when(${category.guard}, handler)\` */
+export const ${category.guard} = (error: unknown): error is ${category.union} =>
+  hasTag(error, ${category.tags})`;
+		})
+		.join("\n\n");
+
+	return `const hasTag = (error: unknown, tags: ReadonlyArray<string>): boolean =>
+  typeof error === "object" &&
+  error !== null &&
+  "_tag" in error &&
+  typeof error._tag === "string" &&
+  tags.includes(error._tag)
+
+${categories}`;
 }
 
 /**
@@ -1265,11 +4662,28 @@ function generateDefaultErrorService(
 	modelTypeAliases: string,
 	prismaInterface: string,
 	modelOperations: string,
+	transactionHelpers: string,
+	identityMap: string,
+	errorClasses: ErrorClassesMode,
+	errorArgs: string,
+	knownErrors: string,
+	clientErrors: string,
+	transactionApiErrors: string,
+	errorSchema: string,
+	errorUnions: string,
+	modelErrorTypes: string,
+	errorCategories: string,
+	errorMeta: string,
+	errorMappers: string,
+	errorMapperService: string,
 	enableTelemetry: boolean,
+	transactionOptionsConflict: TransactionOptionsConflictPolicy,
+	transactionConcurrency: TransactionConcurrencyPolicy,
+	contextTagPrefix: string,
 ): string {
 	const _errorType = "PrismaError";
 	return `${header}
-import { Context, Data, Effect, Exit, Layer, Option, Scope } from "effect"
+${errorClasses === "httpApi" ? `import { HttpApiSchema } from "@effect/platform"\n` : ""}import { Cause, Clock, Context, ${errorClasses === "data" ? "Data, " : ""}Deferred, Effect, Exit, FiberRef, Layer, Option, Schedule, ${errorClasses === "data" ? "" : "Schema, "}Scope } from "effect"
 import { Prisma as PrismaNamespace, PrismaClient as BasePrismaClient } from "${clientImportPath}"
 
 // Create local reference to error class for proper type narrowing
@@ -1291,6 +4705,24 @@ ${modelTypeAliases}
 // Symbol used to identify intentional rollbacks vs actual errors
 const ROLLBACK = Symbol.for("prisma.effect.rollback")
 
+// Thrown by a transaction client used after its transaction committed or rolled back
+class TransactionClosed extends Error {
+  constructor() {
+    super("Transaction already closed: the transaction client was used after its commit or rollback")
+  }
+}
+${
+	transactionConcurrency === "fail"
+		? `
+// Thrown for an operation started while another one runs on the same transaction client
+class TransactionBusy extends Error {
+  constructor() {
+    super("Transaction busy: another operation is running on the transaction client")
+  }
+}
+`
+		: ""
+}
 // Type for the flat transaction client with commit/rollback control
 type FlatTransactionClient = PrismaNamespace.TransactionClient & {
   $commit: () => Promise<void>
@@ -1322,7 +4754,7 @@ type TransactionOptions = {
  *   transactionOptions: { isolationLevel: "Serializable", timeout: 10000 }
  * })
  */
-export class PrismaClient extends Context.Tag("PrismaClient")<
+export class PrismaClient extends Context.Tag(${contextTagKey(contextTagPrefix, "PrismaClient")})<
   PrismaClient,
   BasePrismaClient
 >() {
@@ -1400,370 +4832,108 @@ export class PrismaClient extends Context.Tag("PrismaClient")<
  * This service is only available inside \`$transaction\` calls.
  * Use \`Effect.serviceOption(PrismaTransactionClientService)\` to check if you're in a transaction.
  */
-export class PrismaTransactionClientService extends Context.Tag("PrismaTransactionClientService")<
+export class PrismaTransactionClientService extends Context.Tag(${contextTagKey(contextTagPrefix, "PrismaTransactionClientService")})<
   PrismaTransactionClientService,
   PrismaNamespace.TransactionClient
 >() {}
 
-export class PrismaUniqueConstraintError extends Data.TaggedError("PrismaUniqueConstraintError")<{
-  cause: PrismaNamespace.PrismaClientKnownRequestError
-  operation: string
-  model: string
-}> {}
-
-export class PrismaForeignKeyConstraintError extends Data.TaggedError("PrismaForeignKeyConstraintError")<{
-  cause: PrismaNamespace.PrismaClientKnownRequestError
-  operation: string
-  model: string
-}> {}
-
-export class PrismaRecordNotFoundError extends Data.TaggedError("PrismaRecordNotFoundError")<{
-  cause: PrismaNamespace.PrismaClientKnownRequestError
-  operation: string
-  model: string
-}> {}
-
-export class PrismaRelationViolationError extends Data.TaggedError("PrismaRelationViolationError")<{
-  cause: PrismaNamespace.PrismaClientKnownRequestError
-  operation: string
-  model: string
-}> {}
-
-export class PrismaRelatedRecordNotFoundError extends Data.TaggedError("PrismaRelatedRecordNotFoundError")<{
-  cause: PrismaNamespace.PrismaClientKnownRequestError
-  operation: string
-  model: string
-}> {}
-
-export class PrismaTransactionConflictError extends Data.TaggedError("PrismaTransactionConflictError")<{
-  cause: PrismaNamespace.PrismaClientKnownRequestError
-  operation: string
-  model: string
-}> {}
-
-export class PrismaValueTooLongError extends Data.TaggedError("PrismaValueTooLongError")<{
-  cause: PrismaNamespace.PrismaClientKnownRequestError
-  operation: string
-  model: string
-}> {}
-
-export class PrismaValueOutOfRangeError extends Data.TaggedError("PrismaValueOutOfRangeError")<{
-  cause: PrismaNamespace.PrismaClientKnownRequestError
-  operation: string
-  model: string
-}> {}
-
-export class PrismaDbConstraintError extends Data.TaggedError("PrismaDbConstraintError")<{
-  cause: PrismaNamespace.PrismaClientKnownRequestError
-  operation: string
-  model: string
-}> {}
-
-export class PrismaConnectionError extends Data.TaggedError("PrismaConnectionError")<{
-  cause: PrismaNamespace.PrismaClientKnownRequestError
-  operation: string
-  model: string
-}> {}
-
-export class PrismaMissingRequiredValueError extends Data.TaggedError("PrismaMissingRequiredValueError")<{
-  cause: PrismaNamespace.PrismaClientKnownRequestError
-  operation: string
-  model: string
-}> {}
-
-export class PrismaInputValidationError extends Data.TaggedError("PrismaInputValidationError")<{
-  cause: PrismaNamespace.PrismaClientKnownRequestError
-  operation: string
-  model: string
-}> {}
-
-export type PrismaCreateError =
-  | PrismaValueTooLongError
-  | PrismaUniqueConstraintError
-  | PrismaForeignKeyConstraintError
-  | PrismaDbConstraintError
-  | PrismaInputValidationError
-  | PrismaMissingRequiredValueError
-  | PrismaRelatedRecordNotFoundError
-  | PrismaValueOutOfRangeError
-  | PrismaConnectionError
-  | PrismaTransactionConflictError
-
-export type PrismaUpdateError =
-  | PrismaValueTooLongError
-  | PrismaUniqueConstraintError
-  | PrismaForeignKeyConstraintError
-  | PrismaDbConstraintError
-  | PrismaInputValidationError
-  | PrismaMissingRequiredValueError
-  | PrismaRelationViolationError
-  | PrismaRelatedRecordNotFoundError
-  | PrismaValueOutOfRangeError
-  | PrismaConnectionError
-  | PrismaRecordNotFoundError
-  | PrismaTransactionConflictError
-
-export type PrismaDeleteError =
-  | PrismaForeignKeyConstraintError
-  | PrismaRelationViolationError
-  | PrismaConnectionError
-  | PrismaRecordNotFoundError
-  | PrismaTransactionConflictError
-
-export type PrismaFindOrThrowError =
-  | PrismaConnectionError
-  | PrismaRecordNotFoundError
-
-export type PrismaFindError =
-  | PrismaConnectionError
-
-export type PrismaDeleteManyError =
-  | PrismaForeignKeyConstraintError
-  | PrismaRelationViolationError
-  | PrismaConnectionError
-  | PrismaTransactionConflictError
-
-export type PrismaUpdateManyError =
-  | PrismaValueTooLongError
-  | PrismaUniqueConstraintError
-  | PrismaForeignKeyConstraintError
-  | PrismaDbConstraintError
-  | PrismaInputValidationError
-  | PrismaMissingRequiredValueError
-  | PrismaValueOutOfRangeError
-  | PrismaConnectionError
-  | PrismaTransactionConflictError
-
-export type PrismaError =
-  | PrismaValueTooLongError
-  | PrismaUniqueConstraintError
-  | PrismaForeignKeyConstraintError
-  | PrismaDbConstraintError
-  | PrismaInputValidationError
-  | PrismaMissingRequiredValueError
-  | PrismaRelationViolationError
-  | PrismaRelatedRecordNotFoundError
-  | PrismaValueOutOfRangeError
-  | PrismaConnectionError
-  | PrismaRecordNotFoundError
-  | PrismaTransactionConflictError
-
-// Generic mapper for raw operations and fallback
-const mapError = (error: unknown, operation: string, model: string): PrismaError => {
-  if (isPrismaClientKnownRequestError(error)) {
-    const knownError = error;
-    switch (knownError.code) {
-      case "P2000":
-        return new PrismaValueTooLongError({ cause: error, operation, model });
-      case "P2002":
-        return new PrismaUniqueConstraintError({ cause: error, operation, model });
-      case "P2003":
-        return new PrismaForeignKeyConstraintError({ cause: error, operation, model });
-      case "P2004":
-        return new PrismaDbConstraintError({ cause: error, operation, model });
-      case "P2005":
-      case "P2006":
-      case "P2019":
-        return new PrismaInputValidationError({ cause: error, operation, model });
-      case "P2011":
-      case "P2012":
-        return new PrismaMissingRequiredValueError({ cause: error, operation, model });
-      case "P2014":
-        return new PrismaRelationViolationError({ cause: error, operation, model });
-      case "P2015":
-      case "P2018":
-        return new PrismaRelatedRecordNotFoundError({ cause: error, operation, model });
-      case "P2020":
-        return new PrismaValueOutOfRangeError({ cause: error, operation, model });
-      case "P2024":
-        return new PrismaConnectionError({ cause: error, operation, model });
-      case "P2025":
-        return new PrismaRecordNotFoundError({ cause: error, operation, model });
-      case "P2034":
-        return new PrismaTransactionConflictError({ cause: error, operation, model });
-    }
+/**
+ * Context tag for metadata about the current transaction, available wherever
+ * \`PrismaTransactionClientService\` is. The id and depth are also added to the
+ * log annotations and spans of everything that runs in the transaction.
+ *
+ * @example
+ * const info = yield* PrismaTransactionInfo
+ * yield* Effect.log(\`write in transaction \${info.id} at depth \${info.depth}\`)
+ */
+export class PrismaTransactionInfo extends Context.Tag(${contextTagKey(contextTagPrefix, "PrismaTransactionInfo")})<
+  PrismaTransactionInfo,
+  {
+    /** Generated id of the top-level transaction, shared by nested transactions */
+    readonly id: string
+    /** Nesting depth: 1 for the top-level transaction, 2+ for savepoints */
+    readonly depth: number
+    /** When the top-level transaction began, in epoch milliseconds (from Clock) */
+    readonly startedAt: number
+    /** Isolation level requested for the transaction (undefined = client default) */
+    readonly isolationLevel: PrismaNamespace.TransactionIsolationLevel | undefined
+    /** Timeout (ms) requested for the transaction (undefined = client default) */
+    readonly timeout: number | undefined
+    /** Whether it was started with $isolatedTransaction / $isolatedTransactionWith */
+    readonly isolated: boolean
   }
-  // Unknown errors are not handled and will be treated as defects
-  throw error;
-}
+>() {}
 
-// Specific mappers to narrow error types per operation
+${errorArgs ? `${errorArgs}\n\n` : ""}${knownErrors}
 
-// Create, Upsert
-const mapCreateError = (error: unknown, operation: string, model: string): PrismaCreateError => {
-  if (isPrismaClientKnownRequestError(error)) {
-    const knownError = error;
-    switch (knownError.code) {
-      case "P2000":
-        return new PrismaValueTooLongError({ cause: error, operation, model });
-      case "P2002":
-        return new PrismaUniqueConstraintError({ cause: error, operation, model });
-      case "P2003":
-        return new PrismaForeignKeyConstraintError({ cause: error, operation, model });
-      case "P2004":
-        return new PrismaDbConstraintError({ cause: error, operation, model });
-      case "P2005":
-      case "P2006":
-      case "P2019":
-        return new PrismaInputValidationError({ cause: error, operation, model });
-      case "P2011":
-      case "P2012":
-        return new PrismaMissingRequiredValueError({ cause: error, operation, model });
-      case "P2015":
-      case "P2018":
-        return new PrismaRelatedRecordNotFoundError({ cause: error, operation, model });
-      case "P2020":
-        return new PrismaValueOutOfRangeError({ cause: error, operation, model });
-      case "P2024":
-        return new PrismaConnectionError({ cause: error, operation, model });
-      case "P2034":
-        return new PrismaTransactionConflictError({ cause: error, operation, model });
-    }
-  }
-  throw error;
-}
+${clientErrors}
 
-// Update
-const mapUpdateError = (error: unknown, operation: string, model: string): PrismaUpdateError => {
-  if (isPrismaClientKnownRequestError(error)) {
-    const knownError = error;
-    switch (knownError.code) {
-      case "P2000":
-        return new PrismaValueTooLongError({ cause: error, operation, model });
-      case "P2002":
-        return new PrismaUniqueConstraintError({ cause: error, operation, model });
-      case "P2003":
-        return new PrismaForeignKeyConstraintError({ cause: error, operation, model });
-      case "P2004":
-        return new PrismaDbConstraintError({ cause: error, operation, model });
-      case "P2005":
-      case "P2006":
-      case "P2019":
-        return new PrismaInputValidationError({ cause: error, operation, model });
-      case "P2011":
-      case "P2012":
-        return new PrismaMissingRequiredValueError({ cause: error, operation, model });
-      case "P2014":
-        return new PrismaRelationViolationError({ cause: error, operation, model });
-      case "P2015":
-      case "P2018":
-        return new PrismaRelatedRecordNotFoundError({ cause: error, operation, model });
-      case "P2020":
-        return new PrismaValueOutOfRangeError({ cause: error, operation, model });
-      case "P2024":
-        return new PrismaConnectionError({ cause: error, operation, model });
-      case "P2025":
-        return new PrismaRecordNotFoundError({ cause: error, operation, model });
-      case "P2034":
-        return new PrismaTransactionConflictError({ cause: error, operation, model });
-    }
-  }
-  throw error;
-}
+${transactionApiErrors}
+${errorSchema ? `\n${errorSchema}\n` : ""}
+${errorUnions}
 
-// Delete
-const mapDeleteError = (error: unknown, operation: string, model: string): PrismaDeleteError => {
-  if (isPrismaClientKnownRequestError(error)) {
-    const knownError = error;
-    switch (knownError.code) {
-      case "P2003":
-        return new PrismaForeignKeyConstraintError({ cause: error, operation, model });
-      case "P2014":
-        return new PrismaRelationViolationError({ cause: error, operation, model });
-      case "P2024":
-        return new PrismaConnectionError({ cause: error, operation, model });
-      case "P2025":
-        return new PrismaRecordNotFoundError({ cause: error, operation, model });
-      case "P2034":
-        return new PrismaTransactionConflictError({ cause: error, operation, model });
-    }
-  }
-  throw error;
-}
+${modelErrorTypes}
 
-// FindOrThrow
-const mapFindOrThrowError = (error: unknown, operation: string, model: string): PrismaFindOrThrowError => {
-  if (isPrismaClientKnownRequestError(error)) {
-    const knownError = error;
-    switch (knownError.code) {
-      case "P2024":
-        return new PrismaConnectionError({ cause: error, operation, model });
-      case "P2025":
-        return new PrismaRecordNotFoundError({ cause: error, operation, model });
-    }
-  }
-  throw error;
-}
+// ============================================================================
+// Error categories
+// ============================================================================
 
-// Find
-const mapFindError = (error: unknown, operation: string, model: string): PrismaFindError => {
-  if (isPrismaClientKnownRequestError(error)) {
-    const knownError = error;
-    switch (knownError.code) {
-      case "P2024":
-        return new PrismaConnectionError({ cause: error, operation, model });
-    }
-  }
-  throw error;
-}
+${errorCategories}
 
-// DeleteMany
-const mapDeleteManyError = (error: unknown, operation: string, model: string): PrismaDeleteManyError => {
-  if (isPrismaClientKnownRequestError(error)) {
-    const knownError = error;
-    switch (knownError.code) {
-      case "P2003":
-        return new PrismaForeignKeyConstraintError({ cause: error, operation, model });
-      case "P2014":
-        return new PrismaRelationViolationError({ cause: error, operation, model });
-      case "P2024":
-        return new PrismaConnectionError({ cause: error, operation, model });
-      case "P2034":
-        return new PrismaTransactionConflictError({ cause: error, operation, model });
-    }
-  }
-  throw error;
-}
+// ============================================================================
+// Error metadata normalization
+// Prisma 6 reports details directly in \`meta\` (target, field_name, column_name, ...).
+// Prisma 7 driver adapters nest them under \`meta.driverAdapterError.cause\`.
+// ============================================================================
 
-// UpdateMany
-const mapUpdateManyError = (error: unknown, operation: string, model: string): PrismaUpdateManyError => {
-  if (isPrismaClientKnownRequestError(error)) {
-    const knownError = error;
-    switch (knownError.code) {
-      case "P2000":
-        return new PrismaValueTooLongError({ cause: error, operation, model });
-      case "P2002":
-        return new PrismaUniqueConstraintError({ cause: error, operation, model });
-      case "P2003":
-        return new PrismaForeignKeyConstraintError({ cause: error, operation, model });
-      case "P2004":
-        return new PrismaDbConstraintError({ cause: error, operation, model });
-      case "P2005":
-      case "P2006":
-      case "P2019":
-        return new PrismaInputValidationError({ cause: error, operation, model });
-      case "P2011":
-      case "P2012":
-        return new PrismaMissingRequiredValueError({ cause: error, operation, model });
-      case "P2020":
-        return new PrismaValueOutOfRangeError({ cause: error, operation, model });
-      case "P2024":
-        return new PrismaConnectionError({ cause: error, operation, model });
-      case "P2034":
-        return new PrismaTransactionConflictError({ cause: error, operation, model });
-    }
-  }
-  throw error;
+${errorMeta}
+
+${errorMappers}
+
+${errorMapperService}
+
+// One permit per transaction client begun by $begin. A transaction has a single
+// connection, so its operations run one at a time.
+const transactionPermits = new WeakMap<PrismaNamespace.TransactionClient, Effect.Semaphore>()
+${
+	transactionConcurrency === "fail"
+		? `
+// Handed to an operation that finds the transaction client busy: the operation's
+// own error mapper turns the TransactionBusy it throws into its typed error
+const busyClient = new Proxy({} as PrismaNamespace.TransactionClient, {
+  get() {
+    throw new TransactionBusy()
+  },
+})
+`
+		: ""
 }
-
 /**
- * Helper to get the current client - either the transaction client if in a transaction,
- * or the root client if not. Uses Effect.serviceOption to detect transaction context.
+ * Helper to run an operation with the current client - either the transaction client
+ * if in a transaction, or the root client if not. Uses Effect.serviceOption to detect
+ * transaction context. ${
+	transactionConcurrency === "fail"
+		? "Operations on a transaction client that is already running one get a client that fails them."
+		: "Operations on a transaction client wait for each other, outside transactions they run concurrently."
+}
  */
-const clientOrTx = (client: BasePrismaClient) => Effect.map(
-  Effect.serviceOption(PrismaTransactionClientService),
-  Option.getOrElse(() => client),
-);
+const clientOrTx = <A, E>(
+  client: BasePrismaClient,
+  use: (client: BasePrismaClient | PrismaNamespace.TransactionClient) => Effect.Effect<A, E>
+): Effect.Effect<A, E> =>
+  Effect.flatMap(Effect.serviceOption(PrismaTransactionClientService), (txClient) => {
+    if (Option.isNone(txClient)) return use(client)
+    const permit = transactionPermits.get(txClient.value)
+    if (!permit) return use(txClient.value)
+    return ${
+			transactionConcurrency === "fail"
+				? `Effect.flatMap(
+      permit.withPermitsIfAvailable(1)(use(txClient.value)),
+      Option.match({ onNone: () => use(busyClient), onSome: Effect.succeed })
+    )`
+				: "permit.withPermits(1)(use(txClient.value))"
+		}
+  })
 
 /**
  * Like Effect.acquireUseRelease, but allows the release function to fail.
@@ -1801,7 +4971,7 @@ const acquireUseReleaseWithErrors = <A, E, R, A2, E2, R2, X, E3, R3>(
   );
 
 ${prismaInterface}
-
+${identityMap}
 /**
  * Internal helper to begin a callback-free interactive transaction.
  * Returns a transaction client with $commit and $rollback methods.
@@ -1809,6 +4979,7 @@ ${prismaInterface}
  */
 const $begin = (
   client: BasePrismaClient,
+  mapError: PrismaErrorMapperFn<PrismaError>,
   options?: {
     maxWait?: number
     timeout?: number
@@ -1832,7 +5003,9 @@ const $begin = (
     })
 
     // Start the transaction - Prisma will wait on txPromise before committing
+    let started = false
     const tx = client.$transaction((txClient) => {
+      started = true
       setTxClient(txClient)
       return txPromise
     }, options).catch((e) => {
@@ -1841,21 +5014,40 @@ const $begin = (
       throw e
     })
 
-    // Once we have the transaction client, wrap it with commit/rollback methods
+    // A transaction that fails to start (e.g. maxWait exceeded) never calls the
+    // callback, so its error has to resume the effect from here
+    tx.catch((error) => {
+      if (!started) resume(Effect.fail(startError(error)))
+    })
+
+    // Once we have the transaction client, wrap it with commit/rollback methods.
+    // After either of them, the client fails operations with TransactionClosed
+    // instead of running them in a transaction that is being committed or rolled back.
     txClientPromise.then((innerTx) => {
-      const proxy = new Proxy(innerTx, {
+      let closed = false${
+				identityMap
+					? `
+      // The identity map is discarded when the transaction commits or rolls back
+      const identityMap = makeIdentityMap()`
+					: ""
+			}
+      const proxy = new Proxy(${identityMap ? "withIdentityMap(innerTx, identityMap)" : "innerTx"}, {
         get(target, prop) {
-          if (prop === "$commit") return () => { commit(); return tx }
-          if (prop === "$rollback") return () => { rollback(); return tx }
+          if (prop === "$commit") return () => { closed = true;${identityMap ? " clearIdentityMap(identityMap);" : ""} commit(); return tx }
+          if (prop === "$rollback") return () => { closed = true;${identityMap ? " clearIdentityMap(identityMap);" : ""} rollback(); return tx }
+          if (closed && typeof prop === "string") throw new TransactionClosed()
           return target[prop as keyof typeof target]
         },
       }) as FlatTransactionClient
+      transactionPermits.set(proxy, Effect.unsafeMakeSemaphore(1))
       resume(Effect.succeed(proxy))
     }).catch((error) => {
       resume(Effect.fail(mapError(error, "$transaction", "Prisma")))
     })
   })
 
+${transactionHelpers}
+
 /**
  * The main Prisma service with all database operations.
  * Provides type-safe, effectful access to your Prisma models.
@@ -1872,6 +5064,16 @@ const $begin = (
  */
 const makePrismaService = Effect.gen(function* () {
   const client = yield* PrismaClient;
+  // Error mappers provided at runtime, else the generated defaults
+  const mappers = Option.getOrElse(
+    yield* Effect.serviceOption(PrismaErrorMapper),
+    () => defaultErrorMappers
+  );
+
+  // Model operations, shared by the service and its prisma.tx view
+  const models: PrismaModelOperations = {
+      ${modelOperations}
+  };
 
   const prismaService: IPrismaService = {
       client,
@@ -1882,6 +5084,10 @@ const makePrismaService = Effect.gen(function* () {
        * This implementation uses a callback-free transaction pattern that keeps the effect
        * running in the same fiber as the parent, preserving Ref, FiberRef, and Context access.
        *
+       * When called inside another transaction, the effect runs in a savepoint:
+       * if it fails, only its own writes are rolled back, and the outer transaction
+       * can catch the error and carry on.
+       *
        * Uses default transaction options from PrismaClient constructor.
        * For custom options, use \`$transactionWith\`.
        *
@@ -1897,41 +5103,13 @@ const makePrismaService = Effect.gen(function* () {
       $transaction: ${enableTelemetry ? 'Effect.fn("Prisma.$transaction")' : "Effect.fnUntraced"}(function* (effect) {
           const currentTx = yield* Effect.serviceOption(PrismaTransactionClientService);
 
-          // If already in a transaction, just run the effect
+          // If already in a transaction, run the effect inside a savepoint
           if (Option.isSome(currentTx)) {
-            return yield* (effect as Effect.Effect<
-            Effect.Effect.Success<typeof effect>,
-            Effect.Effect.Error<typeof effect>,
-            Exclude<
-              Effect.Effect.Context<typeof effect>,
-              PrismaTransactionClientService
-            >
-          >);
+            return yield* runInSavepoint(currentTx.value, mappers.mapError, effect);
           }
 
-          // Otherwise, start a new transaction
-          return yield* acquireUseReleaseWithErrors(
-            // Acquire: begin a new transaction with default options
-            $begin(client),
-
-            // Use: run the effect with the transaction client injected
-            (txClient) =>
-              effect.pipe(
-                Effect.provideService(PrismaTransactionClientService, txClient)
-              ),
-
-            // Release: commit on success, rollback on failure/interruption
-            (txClient, exit) =>
-              Exit.isSuccess(exit)
-                ? Effect.tryPromise({
-                    try: () => txClient.$commit(),
-                    catch: (error) => mapError(error, "$commit", "Prisma")
-                  }).pipe(Effect.withSpan("txClient.$rollback"))
-                : Effect.tryPromise({
-                    try: () => txClient.$rollback(),
-                    catch: (error) => mapError(error, "$rollback", "Prisma")
-                  }).pipe(Effect.withSpan("txClient.$rollback"))
-          );
+          // Otherwise, start a new transaction with default options
+          return yield* runInTransaction(client, mappers.mapError, effect);
         }),
 
       /**
@@ -1942,6 +5120,7 @@ const makePrismaService = Effect.gen(function* () {
        * running in the same fiber as the parent, preserving Ref, FiberRef, and Context access.
        *
        * Options passed here override any defaults set in PrismaClient constructor.
+${nestedTransactionWithDoc(transactionOptionsConflict)}
        *
        * @example
        * // Override default isolation level for this transaction
@@ -1957,35 +5136,124 @@ const makePrismaService = Effect.gen(function* () {
       $transactionWith: ${enableTelemetry ? 'Effect.fn("Prisma.$transactionWith")' : "Effect.fnUntraced"}(function* (effect, options) {
           const currentTx = yield* Effect.serviceOption(PrismaTransactionClientService);
 
-          // If already in a transaction, just run the effect
+          // If already in a transaction, run the effect inside a savepoint
           if (Option.isSome(currentTx)) {
-            return yield* effect;
+            return yield* ${nestedTransactionCall(transactionOptionsConflict, "runInSavepoint(currentTx.value, mappers.mapError, effect)", "runInTransaction(client, mappers.mapError, effect, options, true)")};
           }
 
           // Otherwise, start a new transaction
-          return yield* acquireUseReleaseWithErrors(
-            // Acquire: begin a new transaction
-            // Prisma merges per-call options with constructor defaults internally
-            $begin(client, options),
-
-            // Use: run the effect with the transaction client injected
-            (txClient) =>
-              effect.pipe(
-                Effect.provideService(PrismaTransactionClientService, txClient)
-              ),
-
-            // Release: commit on success, rollback on failure/interruption
-            (txClient, exit) =>
-              Exit.isSuccess(exit)
-                ? Effect.tryPromise({
-                    try: () => txClient.$commit(),
-                    catch: (error) => mapError(error, "$commit", "Prisma")
-                  }).pipe(Effect.withSpan("txClient.$rollback"))
-                : Effect.tryPromise({
-                    try: () => txClient.$rollback(),
-                    catch: (error) => mapError(error, "$rollback", "Prisma")
-                  }).pipe(Effect.withSpan("txClient.$rollback"))
+          // Prisma merges per-call options with constructor defaults internally
+          return yield* runInTransaction(client, mappers.mapError, effect, options);
+        }),
+
+      /**
+       * Execute an effect within a database transaction, retried with \`schedule\`
+       * when the transaction fails on a write conflict or deadlock (P2034).
+       * Each retry re-runs the whole effect in a fresh transaction, so it must
+       * not have side effects outside the database.
+       *
+       * When called inside another transaction, the effect runs once in a
+       * savepoint: a conflict aborts the whole outer transaction, so only the
+       * outermost transaction can be retried.
+       *
+       * @example
+       * const result = yield* prisma.$transactionRetry(
+       *   transferFunds(from, to, amount),
+       *   Schedule.exponential("10 millis").pipe(Schedule.intersect(Schedule.recurs(3))),
+       *   { isolationLevel: "Serializable" }
+       * )
+       */
+      $transactionRetry: ${enableTelemetry ? 'Effect.fn("Prisma.$transactionRetry")' : "Effect.fnUntraced"}(function* (effect, schedule, options) {
+          const currentTx = yield* Effect.serviceOption(PrismaTransactionClientService);
+
+          const retried = (isolated: boolean) => runInTransaction(client, mappers.mapError, effect, options, isolated).pipe(
+            Effect.retry({ schedule, while: isTransactionConflict })
           );
+
+          // Never retry a nested transaction, the outer transaction owns the retry
+          if (Option.isSome(currentTx)) {
+            return yield* ${nestedTransactionCall(transactionOptionsConflict, "runInSavepoint(currentTx.value, mappers.mapError, effect)", "retried(true)")};
+          }
+
+          return yield* retried(false);
+        }),
+
+      /**
+       * Execute operations in one non-interactive transaction, using Prisma's
+       * array form of \`$transaction\`. All queries are sent in a single round
+       * trip, without holding a connection while Effect code runs in between.
+       * Returns the results as a tuple; a failure is mapped by the mapper of
+       * the operation that failed, and rolls back the whole batch.
+       *
+       * Each operation must be a single generated operation, e.g.
+       * \`prisma.user.create(...)\`. Inside a transaction, the operations run
+       * in order in the current transaction.
+       *
+       * @example
+       * const [user, post] = yield* prisma.$batch([
+       *   prisma.user.create({ data: { email } }),
+       *   prisma.post.create({ data: { title, authorId } })
+       * ])
+       */
+      $batch: ${enableTelemetry ? 'Effect.fn("Prisma.$batch")' : "Effect.fnUntraced"}(function* (operations, options) {
+          const currentTx = yield* Effect.serviceOption(PrismaTransactionClientService);
+
+          if (Option.isSome(currentTx)) {
+            return yield* ${nestedTransactionCall(transactionOptionsConflict, "allOperations(operations, operations, 1)", "runBatch(client, operations, options)")};
+          }
+
+          return yield* runBatch(client, operations, options);
+        }),
+
+      /**
+       * Begin a transaction whose lifetime is the current Scope, e.g. a
+       * request-scoped Layer or the lifetime of a Stream. Effects run through
+       * the returned handle's \`run\` are part of the transaction, which commits
+       * when the scope closes successfully and rolls back otherwise.
+       *
+       * Yield the handle's \`commit\` before the scope closes to get commit errors
+       * as typed errors. Only the implicit commit or rollback on scope close is
+       * a defect when it fails (the mapped error, e.g.
+       * PrismaTransactionExpiredError), because scope finalizers cannot fail.
+       *
+       * Always begins a new top-level transaction, even when called inside
+       * another transaction.
+       *
+       * @example
+       * const RequestTransaction = Layer.scoped(
+       *   CurrentTransaction,
+       *   Effect.flatMap(Prisma, (prisma) => prisma.$transactionScoped())
+       * )
+       *
+       * // Later, anywhere in the request
+       * const tx = yield* CurrentTransaction
+       * yield* tx.run(prisma.user.create({ data }))
+       */
+      $transactionScoped: ${enableTelemetry ? 'Effect.fn("Prisma.$transactionScoped")' : "Effect.fnUntraced"}(function* (options) {
+          return yield* runScopedTransaction(client, mappers.mapError, options);
+        }),
+
+      /**
+       * Run a multi-step workflow whose steps commit independently. Each
+       * step's \`run\` executes in its own isolated transaction. When a step
+       * fails, the \`compensate\` effects of the completed steps run in reverse
+       * order, each in its own transaction, and the saga fails with the step's
+       * error, or with PrismaSagaCompensationError if compensations failed too.
+       *
+       * @example
+       * const [order, payment] = yield* prisma.$saga([
+       *   {
+       *     run: prisma.order.create({ data }),
+       *     compensate: (order) => prisma.order.delete({ where: { id: order.id } })
+       *   },
+       *   {
+       *     run: chargeCard(card, total),
+       *     compensate: (payment) => refund(payment)
+       *   }
+       * ])
+       */
+      $saga: ${enableTelemetry ? 'Effect.fn("Prisma.$saga")' : "Effect.fnUntraced"}(function* (steps) {
+          return yield* runSaga(client, mappers.mapError, steps);
         }),
 
       /**
@@ -2017,23 +5285,7 @@ const makePrismaService = Effect.gen(function* () {
        */
       $isolatedTransaction: ${enableTelemetry ? 'Effect.fn("Prisma.$isolatedTransaction")' : "Effect.fnUntraced"}(function* (effect) {
           // Always create a fresh transaction
-          return yield* acquireUseReleaseWithErrors(
-            $begin(client),
-            (txClient) =>
-              effect.pipe(
-                Effect.provideService(PrismaTransactionClientService, txClient)
-              ),
-            (txClient, exit) =>
-              Exit.isSuccess(exit)
-                ? Effect.tryPromise({
-                    try: () => txClient.$commit(),
-                    catch: (error) => mapError(error, "$commit", "Prisma")
-                  }).pipe(Effect.withSpan("txClient.$rollback"))
-                : Effect.tryPromise({
-                    try: () => txClient.$rollback(),
-                    catch: (error) => mapError(error, "$rollback", "Prisma")
-                  }).pipe(Effect.withSpan("txClient.$rollback"))
-          );
+          return yield* runInTransaction(client, mappers.mapError, effect, undefined, true);
         }),
 
       /**
@@ -2065,33 +5317,21 @@ const makePrismaService = Effect.gen(function* () {
        */
       $isolatedTransactionWith: ${enableTelemetry ? 'Effect.fn("Prisma.$isolatedTransactionWith")' : "Effect.fnUntraced"}(function* (effect, options) {
           // Always create a fresh transaction
-          return yield* acquireUseReleaseWithErrors(
-            $begin(client, options),
-            (txClient) =>
-              effect.pipe(
-                Effect.provideService(PrismaTransactionClientService, txClient)
-              ),
-            (txClient, exit) =>
-              Exit.isSuccess(exit)
-                ? Effect.tryPromise({
-                    try: () => txClient.$commit(),
-                    catch: (error) => mapError(error, "$commit", "Prisma")
-                  }).pipe(Effect.withSpan("txClient.$rollback"))
-                : Effect.tryPromise({
-                    try: () => txClient.$rollback(),
-                    catch: (error) => mapError(error, "$rollback", "Prisma")
-                  }).pipe(Effect.withSpan("txClient.$rollback"))
-          );
+          return yield* runInTransaction(client, mappers.mapError, effect, options, true);
         }),
       ${rawSqlOperations}
 
-      ${modelOperations}
+      ...models,
+
+      // The same operations: at runtime they resolve the transaction client
+      // with clientOrTx, and the interface requires it in R
+      tx: models,
   };
 
   return prismaService;
 });
 
-export class Prisma extends Context.Tag("Prisma")<Prisma, IPrismaService>() {
+export class Prisma extends Context.Tag(${contextTagKey(contextTagPrefix, "Prisma")})<Prisma, IPrismaService>() {
   /**
    * Effect that constructs the Prisma service.
    * Used internally by layer constructors.
@@ -2099,6 +5339,28 @@ export class Prisma extends Context.Tag("Prisma")<Prisma, IPrismaService>() {
   static make: Effect.Effect<IPrismaService, never, PrismaClient> = makePrismaService;
   static Default: Layer.Layer<Prisma, never, PrismaClient> = Layer.effect(Prisma, this.make);
 
+  /**
+   * Run an effect once the outermost transaction has committed, e.g. to publish
+   * domain events or invalidate caches only after the writes are durable.
+   * Hooks registered in a savepoint that rolls back are discarded.
+   * Outside a transaction, the effect runs immediately.
+   *
+   * @example
+   * yield* prisma.$transaction(
+   *   Effect.gen(function* () {
+   *     const order = yield* prisma.order.create({ data })
+   *     yield* Prisma.onCommit(events.publish(new OrderPlaced({ id: order.id })))
+   *   })
+   * )
+   */
+  static onCommit: <A, R>(effect: Effect.Effect<A, never, R>) => Effect.Effect<void, never, R> = onCommit;
+
+  /**
+   * Run an effect once the current transaction (or savepoint) has rolled back.
+   * Outside a transaction, this does nothing.
+   */
+  static onRollback: <A, R>(effect: Effect.Effect<A, never, R>) => Effect.Effect<void, never, R> = onRollback;
+
   /**
    * Create a complete Prisma layer with the given PrismaClient options.
    * This is the recommended way to create a Prisma layer - it bundles both
@@ -28,3 +28,26 @@ export const mapPrismaError = (
   // and create different error variants or add custom fields
   return new MyPrismaError({ cause: error, operation, model });
 };
+
+/**
+ * Custom error for records that do not exist.
+ */
+export class MyRecordNotFoundError extends Data.TaggedError("MyRecordNotFoundError")<{
+  cause: unknown;
+  operation: string;
+  model: string;
+}> {}
+
+/**
+ * Optional mapper for one operation category (findUniqueOrThrow, findFirstOrThrow).
+ * Its return type becomes the error type of those operations; categories without
+ * a mapper (mapFindError, mapCreateError, ...) fall back to mapPrismaError.
+ */
+export const mapFindOrThrowError = (
+  error: unknown,
+  operation: string,
+  model: string
+): MyRecordNotFoundError | MyPrismaError =>
+  error instanceof Error && "code" in error && error.code === "P2025"
+    ? new MyRecordNotFoundError({ cause: error, operation, model })
+    : mapPrismaError(error, operation, model);
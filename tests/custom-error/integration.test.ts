@@ -3,7 +3,9 @@ import { Effect } from "effect";
 import {
   Prisma,
   MyPrismaError,
+  PrismaFindOrThrowError,
 } from "./generated/effect/index.js";
+import { MyRecordNotFoundError } from "./errors.js";
 
 const MainLayer = Prisma.layer();
 
@@ -34,9 +36,10 @@ describe("Custom Error Generator", () => {
           .findUniqueOrThrow({ where: { id: 999999 } })
           .pipe(Effect.flip);
 
-        // Verify it's our custom error type, not the default PrismaRecordNotFoundError
-        expect(error).toBeInstanceOf(MyPrismaError);
-        expect(error._tag).toBe("MyPrismaError");
+        // Verify it's our custom error type from mapFindOrThrowError,
+        // not the default PrismaRecordNotFoundError
+        expect(error).toBeInstanceOf(MyRecordNotFoundError);
+        expect(error._tag).toBe("MyRecordNotFoundError");
         expect(error.operation).toBe("findUniqueOrThrow");
         expect(error.model).toBe("User");
       }).pipe(Effect.provide(MainLayer)),
@@ -138,5 +141,27 @@ describe("Custom Error Generator", () => {
         >();
       }).pipe(Effect.provide(MainLayer)),
     );
+
+    it.effect("category mappers narrow their operations' error types", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const findOrThrowEffect = prisma.user.findUniqueOrThrow({
+          where: { id: 1 },
+        });
+        expectTypeOf<
+          Effect.Effect.Error<typeof findOrThrowEffect>
+        >().toEqualTypeOf<MyRecordNotFoundError | MyPrismaError>();
+        expectTypeOf<PrismaFindOrThrowError>().toEqualTypeOf<
+          MyRecordNotFoundError | MyPrismaError
+        >();
+
+        // No mapFindError export - falls back to mapPrismaError
+        const findEffect = prisma.user.findMany();
+        expectTypeOf<
+          Effect.Effect.Error<typeof findEffect>
+        >().toEqualTypeOf<MyPrismaError>();
+      }).pipe(Effect.provide(MainLayer)),
+    );
   });
 });
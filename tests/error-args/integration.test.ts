@@ -0,0 +1,55 @@
+import { describe, expect, it } from "@effect/vitest";
+import { Effect } from "effect";
+import {
+  Prisma,
+  PrismaRecordNotFoundError,
+  PrismaUniqueConstraintError,
+} from "./generated/effect/index.js";
+
+const MainLayer = Prisma.layer();
+
+describe("Error Args", () => {
+  it.effect("update - attaches where and data keys", () =>
+    Effect.gen(function* () {
+      const prisma = yield* Prisma;
+
+      const error = yield* prisma.user
+        .update({ where: { id: 42 }, data: { name: "Secret name" } })
+        .pipe(Effect.flip);
+
+      expect(error).toBeInstanceOf(PrismaRecordNotFoundError);
+      expect(error.args).toEqual({ where: { id: 42 }, dataKeys: ["name"] });
+    }).pipe(Effect.provide(MainLayer)),
+  );
+
+  it.effect("findUniqueOrThrow - redacts sensitive fields", () =>
+    Effect.gen(function* () {
+      const prisma = yield* Prisma;
+
+      const error = yield* prisma.user
+        .findUniqueOrThrow({ where: { email: "nobody@example.com" } })
+        .pipe(Effect.flip);
+
+      expect(error).toBeInstanceOf(PrismaRecordNotFoundError);
+      expect(error.args).toEqual({ where: { email: "[REDACTED]" } });
+    }).pipe(Effect.provide(MainLayer)),
+  );
+
+  it.effect("create - attaches data keys only", () =>
+    Effect.gen(function* () {
+      const prisma = yield* Prisma;
+      const email = `error-args-${Date.now()}@example.com`;
+
+      const user = yield* prisma.user.create({ data: { email } });
+      const error = yield* prisma.user
+        .create({ data: { email, name: "Duplicate" } })
+        .pipe(Effect.flip);
+
+      expect(error).toBeInstanceOf(PrismaUniqueConstraintError);
+      expect(error.args).toEqual({ dataKeys: ["email", "name"] });
+      expect(JSON.stringify(error.args)).not.toContain(email);
+
+      yield* prisma.user.delete({ where: { id: user.id } });
+    }).pipe(Effect.provide(MainLayer)),
+  );
+});
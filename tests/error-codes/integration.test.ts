@@ -0,0 +1,77 @@
+import { describe, expect, expectTypeOf, it } from "@effect/vitest";
+import { Effect } from "effect";
+import { Prisma as PrismaNamespace } from "./generated/client/index.js";
+import {
+  Prisma,
+  PrismaConnectionError,
+  PrismaInputValidationError,
+  PrismaPoolTimeoutError,
+  PrismaRecordNotFoundError,
+  defaultErrorMappers,
+  type PrismaCreateError,
+  type PrismaError,
+  type PrismaFindError,
+  type PrismaRetryableError,
+} from "./generated/effect/index.js";
+
+const MainLayer = Prisma.layer();
+
+const knownError = (code: string) =>
+  new PrismaNamespace.PrismaClientKnownRequestError(`Error ${code}`, {
+    code,
+    clientVersion: "test",
+  });
+
+describe("Error Code Overrides", () => {
+  it("maps a code to a new tagged class", () => {
+    const error = defaultErrorMappers.mapFindError(
+      knownError("P2024"),
+      "findMany",
+      "User",
+    );
+
+    expect(error).toBeInstanceOf(PrismaPoolTimeoutError);
+    expect(error).not.toBeInstanceOf(PrismaConnectionError);
+    expect(error).toMatchObject({ operation: "findMany", model: "User" });
+    expectTypeOf<PrismaPoolTimeoutError>().toMatchTypeOf<PrismaFindError>();
+  });
+
+  it("reassigns a code to an existing class", () => {
+    const error = defaultErrorMappers.mapCreateError(
+      knownError("P2011"),
+      "create",
+      "User",
+    );
+
+    expect(error).toBeInstanceOf(PrismaInputValidationError);
+  });
+
+  it("keeps a code marked as defect out of the error channel", () => {
+    expect(() =>
+      defaultErrorMappers.mapCreateError(knownError("P2034"), "create", "User"),
+    ).toThrow("Error P2034");
+
+    // PrismaTransactionConflictError has no codes left, so it is not generated
+    expectTypeOf<
+      Extract<PrismaError["_tag"], "PrismaTransactionConflictError">
+    >().toBeNever();
+    expectTypeOf<
+      Extract<PrismaCreateError["_tag"], "PrismaTransactionConflictError">
+    >().toBeNever();
+    expectTypeOf<
+      Extract<PrismaRetryableError["_tag"], "PrismaTransactionConflictError">
+    >().toBeNever();
+  });
+
+  it.effect("codes without overrides keep their default classes", () =>
+    Effect.gen(function* () {
+      const prisma = yield* Prisma;
+
+      const error = yield* prisma.user
+        .findUniqueOrThrow({ where: { id: 999999 } })
+        .pipe(Effect.flip);
+
+      expect(error).toBeInstanceOf(PrismaRecordNotFoundError);
+    }).pipe(Effect.provide(MainLayer)),
+  );
+});
@@ -0,0 +1,90 @@
+import { HttpApiSchema } from "@effect/platform";
+import { describe, expect, expectTypeOf, it } from "@effect/vitest";
+import { Effect, Schema } from "effect";
+import {
+  Prisma,
+  PrismaHttpErrors,
+  PrismaPartialCommitError,
+  PrismaRecordNotFoundError,
+  PrismaUniqueConstraintError,
+  type UserUniqueFields,
+} from "./generated/effect/index.js";
+
+const MainLayer = Prisma.layer();
+
+describe("HttpApi Error Classes", () => {
+  it.effect("unique constraint violation - Schema error with typed fields", () =>
+    Effect.gen(function* () {
+      const prisma = yield* Prisma;
+      const email = `http-unique-${Date.now()}@example.com`;
+
+      const user = yield* prisma.user.create({ data: { email } });
+      const error = yield* prisma.user
+        .create({ data: { email } })
+        .pipe(Effect.flip);
+
+      expect(error).toBeInstanceOf(PrismaUniqueConstraintError);
+      if (error._tag === "PrismaUniqueConstraintError") {
+        expectTypeOf(error.fields).toEqualTypeOf<UserUniqueFields | undefined>();
+        expect(error.fields).toEqual(["email"]);
+        expect(error.cause).toBeDefined();
+      }
+
+      yield* prisma.user.delete({ where: { id: user.id } });
+    }).pipe(Effect.provide(MainLayer)),
+  );
+
+  it.effect("encoding - cause is redacted from the wire format", () =>
+    Effect.gen(function* () {
+      const prisma = yield* Prisma;
+
+      const error = yield* prisma.user
+        .findUniqueOrThrow({ where: { id: 999999 } })
+        .pipe(Effect.flip);
+
+      const encoded = yield* Schema.encode(PrismaHttpErrors)(error);
+      expect(encoded).toEqual({
+        _tag: "PrismaRecordNotFoundError",
+        operation: "findUniqueOrThrow",
+        model: "User",
+      });
+
+      const decoded = yield* Schema.decodeUnknown(PrismaHttpErrors)(
+        JSON.parse(JSON.stringify(encoded)),
+      );
+      expect(decoded).toBeInstanceOf(PrismaRecordNotFoundError);
+      expect(decoded.cause).toBeUndefined();
+    }).pipe(Effect.provide(MainLayer)),
+  );
+
+  it("errors are annotated with their HTTP status", () => {
+    expect(HttpApiSchema.getStatus(PrismaRecordNotFoundError.ast, 500)).toBe(
+      404,
+    );
+    expect(HttpApiSchema.getStatus(PrismaUniqueConstraintError.ast, 500)).toBe(
+      409,
+    );
+  });
+
+  it.effect("transaction API errors are part of PrismaHttpErrors", () =>
+    Effect.gen(function* () {
+      const error = new PrismaPartialCommitError({
+        committed: ["Prisma"],
+        failed: "AnalyticsPrisma",
+        error: new Error("commit failed"),
+        rolledBack: [],
+        rollbackFailures: [],
+      });
+
+      const encoded = yield* Schema.encode(PrismaHttpErrors)(error);
+      expect(JSON.parse(JSON.stringify(encoded))).toEqual({
+        _tag: "PrismaPartialCommitError",
+        committed: ["Prisma"],
+        failed: "AnalyticsPrisma",
+        rolledBack: [],
+        rollbackFailures: [],
+      });
+      expect(HttpApiSchema.getStatus(PrismaPartialCommitError.ast, 200)).toBe(500);
+    }),
+  );
+});
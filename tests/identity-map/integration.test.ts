@@ -0,0 +1,257 @@
+import { describe, expect, it } from "@effect/vitest";
+import { Effect } from "effect";
+import { Prisma } from "./generated/effect/index.js";
+
+const MainLayer = Prisma.layer();
+
+// A user with one post, deleted again after the test
+const withUser = <A, E, R>(
+  use: (user: { id: number; email: string }) => Effect.Effect<A, E, R>,
+) =>
+  Effect.flatMap(Prisma, (prisma) =>
+    Effect.acquireUseRelease(
+      prisma.user.create({
+        data: {
+          email: `identity-map-${Date.now()}-${Math.random()}@example.com`,
+          name: "Original",
+          posts: { create: { title: "First" } },
+        },
+      }),
+      use,
+      (user) =>
+        Effect.orDie(
+          Effect.zipRight(
+            prisma.post.deleteMany({ where: { authorId: user.id } }),
+            prisma.user.delete({ where: { id: user.id } }),
+          ),
+        ),
+    ),
+  );
+
+describe("Transaction Identity Map", () => {
+  it.effect("findUnique by id returns the cached row within a transaction", () =>
+    withUser((user) =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const [first, second, orThrow] = yield* prisma.$transaction(
+          Effect.all([
+            prisma.user.findUnique({ where: { id: user.id } }),
+            prisma.user.findUnique({ where: { id: user.id } }),
+            prisma.user.findUniqueOrThrow({ where: { id: user.id } }),
+          ]),
+        );
+
+        expect(second).toBe(first);
+        expect(orThrow).toBe(first);
+      }),
+    ).pipe(Effect.provide(MainLayer)),
+  );
+
+  it.effect("cached rows and their relations are frozen", () =>
+    withUser((user) =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const row = yield* prisma.$transaction(
+          prisma.user.findUnique({
+            where: { id: user.id },
+            include: { posts: true },
+          }),
+        );
+
+        expect(Object.isFrozen(row)).toBe(true);
+        expect(Object.isFrozen(row?.posts)).toBe(true);
+        expect(Object.isFrozen(row?.posts[0])).toBe(true);
+        expect(() => {
+          if (row) row.name = "Changed";
+        }).toThrow(TypeError);
+      }),
+    ).pipe(Effect.provide(MainLayer)),
+  );
+
+  it.effect("rows that are not cached are not frozen", () =>
+    withUser((user) =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const row = yield* prisma.$transaction(
+          prisma.user.findUnique({
+            where: { email: user.email },
+            include: { posts: true },
+          }),
+        );
+
+        expect(Object.isFrozen(row)).toBe(false);
+        expect(Object.isFrozen(row?.posts)).toBe(false);
+        if (row) row.name = "Changed";
+        expect(row?.name).toBe("Changed");
+      }),
+    ).pipe(Effect.provide(MainLayer)),
+  );
+
+  it.effect("different select or include are cached separately", () =>
+    withUser((user) =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const [full, selected] = yield* prisma.$transaction(
+          Effect.all([
+            prisma.user.findUnique({ where: { id: user.id } }),
+            prisma.user.findUnique({
+              where: { id: user.id },
+              select: { email: true },
+            }),
+          ]),
+        );
+
+        expect(selected).not.toBe(full);
+        expect(selected).toEqual({ email: user.email });
+      }),
+    ).pipe(Effect.provide(MainLayer)),
+  );
+
+  it.effect("reads by a unique field other than the id are not cached", () =>
+    withUser((user) =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const [first, second] = yield* prisma.$transaction(
+          Effect.all([
+            prisma.user.findUnique({ where: { email: user.email } }),
+            prisma.user.findUnique({ where: { email: user.email } }),
+          ]),
+        );
+
+        expect(second).not.toBe(first);
+        expect(second).toEqual(first);
+      }),
+    ).pipe(Effect.provide(MainLayer)),
+  );
+
+  it.effect("a write to the model invalidates its cached rows", () =>
+    withUser((user) =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const updated = yield* prisma.$transaction(
+          Effect.gen(function* () {
+            yield* prisma.user.findUnique({ where: { id: user.id } });
+            yield* prisma.user.updateMany({
+              where: { id: user.id },
+              data: { name: "Updated" },
+            });
+            return yield* prisma.user.findUnique({ where: { id: user.id } });
+          }),
+        );
+
+        expect(updated?.name).toBe("Updated");
+      }),
+    ).pipe(Effect.provide(MainLayer)),
+  );
+
+  it.effect("a write to an included relation invalidates the row", () =>
+    withUser((user) =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const [before, after] = yield* prisma.$transaction(
+          Effect.gen(function* () {
+            const before = yield* prisma.user.findUnique({
+              where: { id: user.id },
+              include: { posts: true },
+            });
+            yield* prisma.post.create({
+              data: { title: "Second", authorId: user.id },
+            });
+            const after = yield* prisma.user.findUnique({
+              where: { id: user.id },
+              include: { posts: true },
+            });
+            return [before, after] as const;
+          }),
+        );
+
+        expect(before?.posts).toHaveLength(1);
+        expect(after?.posts).toHaveLength(2);
+      }),
+    ).pipe(Effect.provide(MainLayer)),
+  );
+
+  it.effect("a delete invalidates the rows its cascades reach two relations away", () =>
+    Effect.gen(function* () {
+      const prisma = yield* Prisma;
+      const user = yield* prisma.user.create({
+        data: {
+          email: `identity-map-cascade-${Date.now()}@example.com`,
+          posts: { create: { title: "First", comments: { create: { body: "Hi" } } } },
+        },
+        include: { posts: { include: { comments: true } } },
+      });
+      const commentId = user.posts[0]!.comments[0]!.id;
+
+      const [before, after] = yield* prisma.$transaction(
+        Effect.gen(function* () {
+          const before = yield* prisma.comment.findUnique({ where: { id: commentId } });
+          // Cascades to the user's posts, then to their comments
+          yield* prisma.user.delete({ where: { id: user.id } });
+          const after = yield* prisma.comment.findUnique({ where: { id: commentId } });
+          return [before, after] as const;
+        }),
+      );
+
+      expect(before?.body).toBe("Hi");
+      expect(after).toBeNull();
+    }).pipe(Effect.provide(MainLayer)),
+  );
+
+  it.effect("a rolled back nested transaction clears the map", () =>
+    withUser((user) =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const name = yield* prisma.$transaction(
+          Effect.gen(function* () {
+            yield* prisma
+              .$transaction(
+                Effect.zipRight(
+                  prisma.user.update({
+                    where: { id: user.id },
+                    data: { name: "Rolled back" },
+                  }),
+                  // Cached inside the savepoint, which then rolls back
+                  Effect.zipRight(
+                    prisma.user.findUnique({ where: { id: user.id } }),
+                    Effect.fail("rollback" as const),
+                  ),
+                ),
+              )
+              .pipe(Effect.ignore);
+            const reread = yield* prisma.user.findUnique({
+              where: { id: user.id },
+            });
+            return reread?.name;
+          }),
+        );
+
+        expect(name).toBe("Original");
+      }),
+    ).pipe(Effect.provide(MainLayer)),
+  );
+
+  it.effect("rows are not shared outside or across transactions", () =>
+    withUser((user) =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const read = prisma.user.findUnique({ where: { id: user.id } });
+
+        const outside = yield* Effect.all([read, read]);
+        const first = yield* prisma.$transaction(read);
+        const second = yield* prisma.$transaction(read);
+
+        expect(outside[1]).not.toBe(outside[0]);
+        expect(second).not.toBe(first);
+      }),
+    ).pipe(Effect.provide(MainLayer)),
+  );
+});
@@ -1,16 +1,60 @@
-import { describe, expect, expectTypeOf, it } from "@effect/vitest";
-import { Context, Data, Effect, Layer, pipe, Ref } from "effect";
+import { copyFileSync, rmSync } from "node:fs";
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  expect,
+  expectTypeOf,
+  it,
+} from "@effect/vitest";
+import {
+  Cause,
+  Context,
+  Data,
+  Effect,
+  Fiber,
+  HashMap,
+  Layer,
+  Option,
+  pipe,
+  Ref,
+  Schedule,
+} from "effect";
 import {
   Prisma,
   PrismaClient,
   PrismaUniqueConstraintError,
   PrismaRecordNotFoundError,
   PrismaForeignKeyConstraintError,
+  PrismaValidationError,
+  PrismaRawQueryError,
+  PrismaTransactionConflictError,
+  PrismaTransactionClosedError,
+  PrismaTransactionExpiredError,
+  PrismaTransactionOptionsConflictError,
+  PrismaTransactionStartError,
+  PrismaTransactionClientService,
+  PrismaSagaCompensationError,
+  PrismaPartialCommitError,
+  PrismaTransactionInfo,
+  type TransactionHandle,
+  PrismaErrorMapper,
+  defaultErrorMappers,
+  isConstraintError,
+  isNotFound,
+  isRetryable,
+  $transactionAcross,
 } from "./generated/effect/index.js";
+import * as Analytics from "./generated/effect-analytics/index.js";
 import { Prisma as PrismaNamespace } from "./generated/client/index.js";
 
 const MainLayer = Prisma.layer();
 
+// Second database for $transactionAcross, a copy of dev.db made before the tests
+const AnalyticsLayer = Analytics.Prisma.layer({
+  datasourceUrl: "file:./analytics.db",
+});
+
 describe("Prisma 6 Effect Generator", () => {
   // ============================================
   // CRUD Operations
@@ -1133,21 +1177,21 @@ describe("Prisma 6 Effect Generator", () => {
       }).pipe(Effect.provide(MainLayer)),
     );
 
-    it.effect("nested tx: catch inner failure - inner data PERSISTS (no savepoints)", () =>
+    it.effect("nested tx: catch inner failure - inner writes roll back to savepoint", () =>
       Effect.gen(function* () {
         const prisma = yield* Prisma;
         const prefix = `tx-catch-inner-${Date.now()}`;
 
-        // IMPORTANT: Nested $transaction calls share the SAME database transaction!
-        // There are no savepoints - catching inner failure doesn't rollback inner's writes
+        // Nested $transaction calls run in a savepoint of the outer transaction.
+        // Catching the inner failure rolls back only the inner's writes.
 
-        const result = yield* prisma.$transaction(
+        yield* prisma.$transaction(
           Effect.gen(function* () {
             const outerUser = yield* prisma.user.create({
               data: { email: `${prefix}-outer@example.com`, name: "Outer" },
             });
 
-            // Inner "fails" but we CATCH it - the data it created is NOT rolled back!
+            // Inner fails and we CATCH it - its writes are rolled back to the savepoint
             const innerResult = yield* prisma
               .$transaction(
                 Effect.gen(function* () {
@@ -1170,15 +1214,66 @@ describe("Prisma 6 Effect Generator", () => {
           }),
         );
 
-        // ALL THREE users are committed because nested txs share the same db transaction
         const users = yield* prisma.user.findMany({
           where: { email: { startsWith: prefix } },
           orderBy: { email: "asc" },
         });
 
-        expect(users).toHaveLength(3);
-        expect(users.map((u) => u.name)).toEqual(["After", "Inner", "Outer"]);
-        // "Inner" IS in the list - its writes persisted despite the caught failure
+        expect(users).toHaveLength(2);
+        expect(users.map((u) => u.name)).toEqual(["After", "Outer"]);
+        // "Inner" is NOT in the list - only its own writes were undone
+
+        // Cleanup
+        yield* prisma.user.deleteMany({
+          where: { email: { startsWith: prefix } },
+        });
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("nested tx: deeply nested - caught innermost failure keeps middle writes", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const prefix = `tx-savepoint-deep-${Date.now()}`;
+
+        yield* prisma.$transaction(
+          Effect.gen(function* () {
+            yield* prisma.user.create({
+              data: { email: `${prefix}-1@example.com`, name: "Level 1" },
+            });
+
+            yield* prisma.$transaction(
+              Effect.gen(function* () {
+                yield* prisma.user.create({
+                  data: { email: `${prefix}-2@example.com`, name: "Level 2" },
+                });
+
+                yield* prisma
+                  .$transaction(
+                    Effect.gen(function* () {
+                      yield* prisma.user.create({
+                        data: { email: `${prefix}-3@example.com`, name: "Level 3" },
+                      });
+                      yield* Effect.fail("Innermost failure");
+                    }),
+                  )
+                  .pipe(Effect.catchAll(() => Effect.void));
+
+                // A sibling nested transaction after the rolled back one still works
+                yield* prisma.$transaction(
+                  prisma.user.create({
+                    data: { email: `${prefix}-4@example.com`, name: "Level 3 sibling" },
+                  }),
+                );
+              }),
+            );
+          }),
+        );
+
+        const users = yield* prisma.user.findMany({
+          where: { email: { startsWith: prefix } },
+          orderBy: { email: "asc" },
+        });
+        expect(users.map((u) => u.name)).toEqual(["Level 1", "Level 2", "Level 3 sibling"]);
 
         // Cleanup
         yield* prisma.user.deleteMany({
@@ -1187,6 +1282,35 @@ describe("Prisma 6 Effect Generator", () => {
       }).pipe(Effect.provide(MainLayer)),
     );
 
+    it.effect("nested tx: caught Prisma error inside savepoint keeps outer usable", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const email = `tx-savepoint-prisma-error-${Date.now()}@example.com`;
+
+        const result = yield* prisma.$transaction(
+          Effect.gen(function* () {
+            const user = yield* prisma.user.create({ data: { email, name: "Original" } });
+
+            // Duplicate email fails inside the savepoint and is recovered from
+            const error = yield* prisma
+              .$transaction(prisma.user.create({ data: { email, name: "Duplicate" } }))
+              .pipe(Effect.flip);
+            expect(error._tag).toBe("PrismaUniqueConstraintError");
+
+            return yield* prisma.user.update({
+              where: { id: user.id },
+              data: { name: "Updated" },
+            });
+          }),
+        );
+
+        expect(result.name).toBe("Updated");
+
+        // Cleanup
+        yield* prisma.user.delete({ where: { id: result.id } });
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
     it.effect("nested tx: inner creates data visible to outer within tx", () =>
       Effect.gen(function* () {
         const prisma = yield* Prisma;
@@ -2341,6 +2465,86 @@ describe("Prisma 6 Effect Generator", () => {
       }).pipe(Effect.provide(MainLayer)),
     );
 
+    it.effect("should fail nested $transactionWith requesting a longer timeout", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const email = `tx-options-conflict-${Date.now()}@example.com`;
+
+        const error = yield* prisma
+          .$transactionWith(
+            Effect.gen(function* () {
+              yield* prisma.user.create({ data: { email } });
+              yield* prisma.$transactionWith(
+                prisma.user.count(),
+                { timeout: 10000 }
+              );
+            }),
+            { timeout: 5000 }
+          )
+          .pipe(Effect.flip);
+
+        expect(error).toBeInstanceOf(PrismaTransactionOptionsConflictError);
+        expect(error).toMatchObject({
+          option: "timeout",
+          requested: 10000,
+          active: 5000,
+        });
+
+        // The outer transaction was rolled back
+        expect(yield* prisma.user.findUnique({ where: { email } })).toBeNull();
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should run nested $transactionWith within the outer options", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const count = yield* prisma.$transactionWith(
+          prisma.$transactionWith(prisma.user.count(), { timeout: 5000 }),
+          { timeout: 10000 }
+        );
+
+        expect(count).toBeGreaterThanOrEqual(0);
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should fail nested $transactionWith requesting an option the outer transaction left to the default", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const error = yield* prisma
+          .$transaction(
+            prisma.$transactionWith(prisma.user.count(), { isolationLevel: "Serializable" })
+          )
+          .pipe(Effect.flip);
+
+        expect(error).toBeInstanceOf(PrismaTransactionOptionsConflictError);
+        expect(error).toMatchObject({
+          option: "isolationLevel",
+          requested: "Serializable",
+          active: undefined,
+        });
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should check nested options against a $transactionScoped context provided directly", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const error = yield* Effect.scoped(
+          Effect.gen(function* () {
+            const tx = yield* prisma.$transactionScoped({ timeout: 5000 });
+            return yield* prisma
+              .$transactionWith(prisma.user.count(), { timeout: 10000 })
+              .pipe(Effect.provide(tx.context));
+          })
+        ).pipe(Effect.flip);
+
+        expect(error).toBeInstanceOf(PrismaTransactionOptionsConflictError);
+        expect(error).toMatchObject({ option: "timeout", requested: 10000, active: 5000 });
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
     it.effect("should support $isolatedTransactionWith with custom options", () =>
       Effect.gen(function* () {
         const prisma = yield* Prisma;
@@ -2365,122 +2569,1274 @@ describe("Prisma 6 Effect Generator", () => {
       }).pipe(Effect.provide(MainLayer)),
     );
 
-    it.effect("should enable point-free programming style", () =>
+    it.effect("should retry $transactionRetry on write conflicts", () =>
       Effect.gen(function* () {
         const prisma = yield* Prisma;
-        const email = `tx-point-free-${Date.now()}@example.com`;
-
-        // Define reusable transaction boundary
-        const withTransaction = prisma.$transaction;
+        const prefix = `tx-retry-${Date.now()}`;
+        const attempts = yield* Ref.make(0);
 
-        // Create effect to run in transaction
-        const createUserEffect = Effect.gen(function* () {
-          const user = yield* prisma.user.create({
-            data: { email, name: "Point Free User" },
-          });
-          return user;
-        });
+        // Fail the first two attempts with a write conflict (P2034)
+        const result = yield* prisma.$transactionRetry(
+          Effect.gen(function* () {
+            const attempt = yield* Ref.updateAndGet(attempts, (n) => n + 1);
+            const user = yield* prisma.user.create({
+              data: { email: `${prefix}-${attempt}@example.com` },
+            });
+            if (attempt < 3) {
+              return yield* Effect.fail(
+                new PrismaTransactionConflictError({
+                  cause: new PrismaNamespace.PrismaClientKnownRequestError(
+                    "Write conflict",
+                    { code: "P2034", clientVersion: "test" }
+                  ),
+                  operation: "create",
+                  model: "User",
+                })
+              );
+            }
+            return user;
+          }),
+          Schedule.recurs(3)
+        );
 
-        // Use point-free style with pipe
-        const result = yield* pipe(createUserEffect, withTransaction);
+        expect(yield* Ref.get(attempts)).toBe(3);
 
-        expect(result.email).toBe(email);
+        // Only the last attempt was committed
+        const users = yield* prisma.user.findMany({
+          where: { email: { startsWith: prefix } },
+        });
+        expect(users).toHaveLength(1);
+        expect(users[0].id).toBe(result.id);
 
         // Cleanup
         yield* prisma.user.delete({ where: { id: result.id } });
       }).pipe(Effect.provide(MainLayer)),
     );
-  });
-
-  // ============================================
-  // Error Handling
-  // ============================================
 
-  describe("Error handling", () => {
-    it.effect("should return PrismaUniqueConstraintError on duplicate", () =>
+    it.effect("should not retry $transactionRetry on other errors", () =>
       Effect.gen(function* () {
         const prisma = yield* Prisma;
-        const email = `unique-error-${Date.now()}@example.com`;
+        const attempts = yield* Ref.make(0);
 
-        yield* prisma.user.create({ data: { email, name: "First" } });
+        const error = yield* prisma
+          .$transactionRetry(
+            Effect.gen(function* () {
+              yield* Ref.update(attempts, (n) => n + 1);
+              return yield* prisma.user.findUniqueOrThrow({
+                where: { id: 999999 },
+              });
+            }),
+            Schedule.recurs(3)
+          )
+          .pipe(Effect.flip);
 
-        const error = yield* prisma.user
-          .create({ data: { email, name: "Duplicate" } })
+        expect(error).toBeInstanceOf(PrismaRecordNotFoundError);
+        expect(yield* Ref.get(attempts)).toBe(1);
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should not retry $transactionRetry inside an outer transaction", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const attempts = yield* Ref.make(0);
+        const conflict = new PrismaTransactionConflictError({
+          cause: new PrismaNamespace.PrismaClientKnownRequestError(
+            "Write conflict",
+            { code: "P2034", clientVersion: "test" }
+          ),
+          operation: "update",
+          model: "User",
+        });
+
+        const error = yield* prisma
+          .$transaction(
+            prisma.$transactionRetry(
+              Ref.update(attempts, (n) => n + 1).pipe(
+                Effect.zipRight(Effect.fail(conflict))
+              ),
+              Schedule.recurs(3)
+            )
+          )
           .pipe(Effect.flip);
 
-        expect(error).toBeInstanceOf(PrismaUniqueConstraintError);
-        if (error instanceof PrismaUniqueConstraintError) {
-          expect(error.cause.code).toBe("P2002");
-        }
+        expect(error).toBe(conflict);
+        expect(yield* Ref.get(attempts)).toBe(1);
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should run onCommit hooks after the transaction commits", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const email = `tx-on-commit-${Date.now()}@example.com`;
+        const events = yield* Ref.make<Array<string>>([]);
+
+        const user = yield* prisma.$transaction(
+          Effect.gen(function* () {
+            const user = yield* prisma.user.create({ data: { email } });
+            yield* Prisma.onCommit(Ref.update(events, (e) => [...e, "committed"]));
+            yield* Prisma.onRollback(Ref.update(events, (e) => [...e, "rolled back"]));
+
+            // Hooks have not run yet
+            expect(yield* Ref.get(events)).toEqual([]);
+            return user;
+          })
+        );
+
+        expect(yield* Ref.get(events)).toEqual(["committed"]);
 
         // Cleanup
-        yield* prisma.user.delete({ where: { email } });
+        yield* prisma.user.delete({ where: { id: user.id } });
       }).pipe(Effect.provide(MainLayer)),
     );
 
-    it.effect("should return PrismaRecordNotFoundError on OrThrow methods", () =>
+    it.effect("should run onRollback hooks after the transaction rolls back", () =>
       Effect.gen(function* () {
         const prisma = yield* Prisma;
+        const email = `tx-on-rollback-${Date.now()}@example.com`;
+        const events = yield* Ref.make<Array<string>>([]);
 
-        const findError = yield* prisma.user
-          .findUniqueOrThrow({ where: { id: 999999 } })
+        const error = yield* prisma
+          .$transaction(
+            Effect.gen(function* () {
+              yield* prisma.user.create({ data: { email } });
+              yield* Prisma.onCommit(Ref.update(events, (e) => [...e, "committed"]));
+              yield* Prisma.onRollback(Ref.update(events, (e) => [...e, "rolled back"]));
+              return yield* Effect.fail("boom" as const);
+            })
+          )
           .pipe(Effect.flip);
 
-        expect(findError).toBeInstanceOf(PrismaRecordNotFoundError);
+        expect(error).toBe("boom");
+        expect(yield* Ref.get(events)).toEqual(["rolled back"]);
+        expect(yield* prisma.user.findUnique({ where: { email } })).toBeNull();
+      }).pipe(Effect.provide(MainLayer)),
+    );
 
-        const findFirstError = yield* prisma.user
-          .findFirstOrThrow({ where: { id: 999999 } })
-          .pipe(Effect.flip);
+    it.effect("should run onCommit immediately outside a transaction", () =>
+      Effect.gen(function* () {
+        const events = yield* Ref.make<Array<string>>([]);
 
-        expect(findFirstError).toBeInstanceOf(PrismaRecordNotFoundError);
-      }).pipe(Effect.provide(MainLayer)),
+        yield* Prisma.onCommit(Ref.update(events, (e) => [...e, "committed"]));
+        yield* Prisma.onRollback(Ref.update(events, (e) => [...e, "rolled back"]));
+
+        expect(yield* Ref.get(events)).toEqual(["committed"]);
+      }),
     );
 
-    it.effect("should return PrismaForeignKeyConstraintError on invalid FK", () =>
+    it.effect("should discard onCommit hooks of a rolled back nested transaction", () =>
       Effect.gen(function* () {
         const prisma = yield* Prisma;
+        const events = yield* Ref.make<Array<string>>([]);
+        const log = (event: string) => Ref.update(events, (e) => [...e, event]);
 
-        // Try to create a post with a non-existent author
-        const error = yield* prisma.post
-          .create({
-            data: {
-              title: "Orphan Post",
-              authorId: 999999, // Non-existent user
-            },
+        yield* prisma.$transaction(
+          Effect.gen(function* () {
+            yield* Prisma.onCommit(log("outer committed"));
+
+            yield* prisma
+              .$transaction(
+                Effect.gen(function* () {
+                  yield* Prisma.onCommit(log("inner committed"));
+                  yield* Prisma.onRollback(log("inner rolled back"));
+                  return yield* Effect.fail("inner failure" as const);
+                })
+              )
+              .pipe(Effect.ignore);
+
+            yield* prisma.$transaction(Prisma.onCommit(log("sibling committed")));
           })
-          .pipe(Effect.flip);
+        );
 
-        expect(error).toBeInstanceOf(PrismaForeignKeyConstraintError);
-        if (error instanceof PrismaForeignKeyConstraintError) {
-          expect(error.cause.code).toBe("P2003");
-        }
+        expect(yield* Ref.get(events)).toEqual([
+          "inner rolled back",
+          "outer committed",
+          "sibling committed",
+        ]);
       }).pipe(Effect.provide(MainLayer)),
     );
 
-    it.effect("should return PrismaRecordNotFoundError on update non-existent", () =>
+    it.effect("should run $batch operations in one transaction", () =>
       Effect.gen(function* () {
         const prisma = yield* Prisma;
+        const email = `tx-batch-${Date.now()}@example.com`;
 
-        const error = yield* prisma.user
-          .update({
-            where: { id: 999999 },
-            data: { name: "Will Not Work" },
-          })
+        const user = yield* prisma.user.create({ data: { email } });
+        const [post, count, found] = yield* prisma.$batch([
+          prisma.post.create({ data: { title: "Batch Post", authorId: user.id } }),
+          prisma.user.count({ where: { email } }),
+          prisma.user.findUnique({ where: { id: user.id }, select: { email: true } }),
+        ]);
+
+        expectTypeOf(count).toEqualTypeOf<number>();
+        expectTypeOf(found).toEqualTypeOf<{ email: string } | null>();
+        expect(post.title).toBe("Batch Post");
+        expect(count).toBe(1);
+        expect(found).toEqual({ email });
+
+        // Cleanup
+        yield* prisma.post.delete({ where: { id: post.id } });
+        yield* prisma.user.delete({ where: { id: user.id } });
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should roll back $batch and map the failed operation's error", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const prefix = `tx-batch-fail-${Date.now()}`;
+
+        const existing = yield* prisma.user.create({
+          data: { email: `${prefix}-existing@example.com` },
+        });
+        const error = yield* prisma
+          .$batch([
+            prisma.user.create({ data: { email: `${prefix}-new@example.com` } }),
+            prisma.user.create({ data: { email: existing.email } }),
+          ])
           .pipe(Effect.flip);
 
-        expect(error).toBeInstanceOf(PrismaRecordNotFoundError);
+        expect(error).toBeInstanceOf(PrismaUniqueConstraintError);
+        expect(error).toMatchObject({ operation: "create", model: "User" });
+
+        // The first create was rolled back with the batch
+        const users = yield* prisma.user.findMany({
+          where: { email: { startsWith: prefix } },
+        });
+        expect(users).toHaveLength(1);
+
+        // Cleanup
+        yield* prisma.user.delete({ where: { id: existing.id } });
       }).pipe(Effect.provide(MainLayer)),
     );
 
-    it.effect("should return PrismaRecordNotFoundError on delete non-existent", () =>
+    it.effect("should not send $batch when an operation fails before its query", () =>
       Effect.gen(function* () {
         const prisma = yield* Prisma;
+        const email = `tx-batch-early-${Date.now()}@example.com`;
 
-        const error = yield* prisma.user
-          .delete({ where: { id: 999999 } })
+        const error = yield* prisma
+          .$batch([
+            prisma.user.create({ data: { email } }),
+            Effect.fail("boom" as const),
+          ])
           .pipe(Effect.flip);
 
+        expect(error).toBe("boom");
+        expect(yield* prisma.user.findUnique({ where: { email } })).toBeNull();
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should run $batch in the current transaction when nested", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const prefix = `tx-batch-nested-${Date.now()}`;
+
+        const error = yield* prisma
+          .$transaction(
+            Effect.gen(function* () {
+              yield* prisma.$batch([
+                prisma.user.create({ data: { email: `${prefix}-1@example.com` } }),
+                prisma.user.create({ data: { email: `${prefix}-2@example.com` } }),
+              ]);
+              return yield* Effect.fail("rollback" as const);
+            })
+          )
+          .pipe(Effect.flip);
+
+        expect(error).toBe("rollback");
+        const users = yield* prisma.user.findMany({
+          where: { email: { startsWith: prefix } },
+        });
+        expect(users).toHaveLength(0);
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should commit $transactionScoped when the scope closes", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const email = `tx-scoped-${Date.now()}@example.com`;
+        const events = yield* Ref.make<Array<string>>([]);
+
+        const user = yield* Effect.scoped(
+          Effect.gen(function* () {
+            const tx = yield* prisma.$transactionScoped();
+            return yield* tx.run(
+              Effect.gen(function* () {
+                const user = yield* prisma.user.create({ data: { email } });
+                yield* Prisma.onCommit(Ref.update(events, (e) => [...e, "committed"]));
+                return user;
+              })
+            );
+          })
+        );
+
+        expect(yield* Ref.get(events)).toEqual(["committed"]);
+        expect(yield* prisma.user.findUnique({ where: { email } })).not.toBeNull();
+
+        // Cleanup
+        yield* prisma.user.delete({ where: { id: user.id } });
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should roll back $transactionScoped when the scope fails", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const email = `tx-scoped-rollback-${Date.now()}@example.com`;
+
+        const error = yield* Effect.scoped(
+          Effect.gen(function* () {
+            const tx = yield* prisma.$transactionScoped();
+            yield* tx.run(prisma.user.create({ data: { email } }));
+            return yield* Effect.fail("boom" as const);
+          })
+        ).pipe(Effect.flip);
+
+        expect(error).toBe("boom");
+        expect(yield* prisma.user.findUnique({ where: { email } })).toBeNull();
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.live("should die with the commit error when $transactionScoped fails to commit on scope close", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const exit = yield* Effect.scoped(
+          Effect.gen(function* () {
+            const tx = yield* prisma.$transactionScoped({ timeout: 100 });
+            yield* tx.run(prisma.user.count());
+            yield* Effect.sleep("300 millis");
+          })
+        ).pipe(Effect.exit);
+
+        expect(exit._tag).toBe("Failure");
+        if (exit._tag === "Failure") {
+          expect(Cause.isDie(exit.cause)).toBe(true);
+          const defect = Cause.squash(exit.cause);
+          expect(defect).toBeInstanceOf(PrismaTransactionExpiredError);
+          expect(defect).toMatchObject({ operation: "$commit", model: "Prisma" });
+        }
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.live("should fail with the commit error when $transactionScoped commits before scope close", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const error = yield* Effect.scoped(
+          Effect.gen(function* () {
+            const tx = yield* prisma.$transactionScoped({ timeout: 100 });
+            yield* tx.run(prisma.user.count());
+            yield* Effect.sleep("300 millis");
+            yield* tx.commit;
+          })
+        ).pipe(Effect.flip);
+
+        expect(error).toBeInstanceOf(PrismaTransactionExpiredError);
+        expect(error).toMatchObject({ operation: "$commit", model: "Prisma" });
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.live("should close the scope cleanly after a handled $transactionScoped commit error", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        // A defect from the scope close would fail the test instead of returning
+        const result = yield* Effect.scoped(
+          Effect.gen(function* () {
+            const tx = yield* prisma.$transactionScoped({ timeout: 100 });
+            yield* tx.run(prisma.user.count());
+            yield* Effect.sleep("300 millis");
+            return yield* tx.commit.pipe(
+              Effect.as("committed"),
+              Effect.catchTag("PrismaTransactionExpiredError", () => Effect.succeed("expired"))
+            );
+          })
+        );
+
+        expect(result).toBe("expired");
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should tie $transactionScoped to a Layer", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const prefix = `tx-scoped-layer-${Date.now()}`;
+
+        class CurrentTransaction extends Context.Tag("CurrentTransaction")<
+          CurrentTransaction,
+          TransactionHandle
+        >() {}
+        const TransactionLayer = Layer.scoped(
+          CurrentTransaction,
+          prisma.$transactionScoped({ timeout: 10000 })
+        );
+
+        // Two separate steps share the layer's transaction
+        const createUser = (n: number) =>
+          Effect.flatMap(CurrentTransaction, (tx) =>
+            tx.run(prisma.user.create({ data: { email: `${prefix}-${n}@example.com` } }))
+          );
+        yield* Effect.all([createUser(1), createUser(2)]).pipe(
+          Effect.provide(TransactionLayer)
+        );
+
+        const users = yield* prisma.user.findMany({
+          where: { email: { startsWith: prefix } },
+        });
+        expect(users).toHaveLength(2);
+
+        // Cleanup
+        yield* prisma.user.deleteMany({
+          where: { email: { startsWith: prefix } },
+        });
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should provide PrismaTransactionInfo inside transactions", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const [outer, nested, annotations] = yield* prisma.$transactionWith(
+          Effect.all([
+            PrismaTransactionInfo,
+            prisma.$transaction(PrismaTransactionInfo),
+            Effect.logAnnotations,
+          ]),
+          { timeout: 10000 }
+        );
+        const isolated = yield* prisma.$isolatedTransaction(PrismaTransactionInfo);
+
+        expect(outer).toMatchObject({ depth: 1, timeout: 10000, isolated: false });
+        expect(outer.startedAt).toBeLessThanOrEqual(Date.now());
+        expect(nested).toMatchObject({ id: outer.id, depth: 2, timeout: 10000 });
+        expect(isolated).toMatchObject({ depth: 1, timeout: undefined, isolated: true });
+        expect(isolated.id).not.toBe(outer.id);
+        expect(HashMap.get(annotations, "prisma.transaction.id")).toEqual(
+          Option.some(outer.id)
+        );
+
+        // Not available outside a transaction
+        expect(yield* Effect.serviceOption(PrismaTransactionInfo)).toEqual(Option.none());
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.live("should fail with PrismaTransactionStartError when a transaction cannot start", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        // SQLite allows one transaction at a time, so the independent
+        // transaction waits for the outer one until maxWait runs out
+        const error = yield* prisma.$transaction(
+          prisma
+            .$isolatedTransactionWith(prisma.user.count(), { maxWait: 100 })
+            .pipe(Effect.flip)
+        );
+
+        expect(error).toBeInstanceOf(PrismaTransactionStartError);
+        expect(error).toMatchObject({ operation: "$transaction", model: "Prisma" });
+        expect(isRetryable(error)).toBe(true);
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.live("should fail with PrismaTransactionExpiredError when the commit comes after the timeout", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const error = yield* prisma
+          .$transactionWith(
+            prisma.user.count().pipe(Effect.zipLeft(Effect.sleep("300 millis"))),
+            { timeout: 100 }
+          )
+          .pipe(Effect.flip);
+
+        expect(error).toBeInstanceOf(PrismaTransactionExpiredError);
+        expect(error).toMatchObject({ operation: "$commit", model: "Prisma" });
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.live("should fail with PrismaTransactionExpiredError when an operation comes after the timeout", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const error = yield* prisma
+          .$transactionWith(
+            Effect.sleep("300 millis").pipe(Effect.zipRight(prisma.user.count())),
+            { timeout: 100 }
+          )
+          .pipe(Effect.flip);
+
+        expect(error).toBeInstanceOf(PrismaTransactionExpiredError);
+        expect(error).toMatchObject({ operation: "count", model: "User" });
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should fail with PrismaTransactionClosedError when a fiber outlives its transaction", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const latch = yield* Effect.makeLatch(false);
+
+        const fiber = yield* prisma.$transaction(
+          Effect.forkDaemon(latch.await.pipe(Effect.zipRight(prisma.user.count())))
+        );
+        yield* latch.open;
+        const error = yield* Fiber.join(fiber).pipe(Effect.flip);
+
+        expect(error).toBeInstanceOf(PrismaTransactionClosedError);
+        expect(error).toMatchObject({ operation: "count", model: "User" });
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should run concurrent operations in a transaction one at a time", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const prefix = `concurrent-tx-${Date.now()}`;
+
+        const users = yield* prisma.$transaction(
+          Effect.all(
+            Array.from({ length: 10 }, (_, i) =>
+              prisma.user.create({ data: { email: `${prefix}-${i}@example.com` } })
+            ),
+            { concurrency: "unbounded" }
+          )
+        );
+
+        expect(users.map((user) => user.email)).toEqual(
+          Array.from({ length: 10 }, (_, i) => `${prefix}-${i}@example.com`)
+        );
+        expect(
+          yield* prisma.user.count({ where: { email: { startsWith: prefix } } })
+        ).toBe(10);
+
+        // Cleanup
+        yield* prisma.user.deleteMany({ where: { email: { startsWith: prefix } } });
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.live("should keep a concurrent sibling's writes when a nested transaction fails", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const prefix = `concurrent-siblings-${Date.now()}`;
+        const nested = (name: string, fail: boolean) =>
+          prisma.$transaction(
+            Effect.gen(function* () {
+              yield* prisma.user.create({ data: { email: `${prefix}-${name}-1@example.com` } });
+              yield* Effect.sleep("20 millis");
+              yield* prisma.user.create({ data: { email: `${prefix}-${name}-2@example.com` } });
+              if (fail) return yield* Effect.fail("nested failure" as const);
+            })
+          );
+
+        const [failed] = yield* prisma.$transaction(
+          Effect.all([nested("a", true).pipe(Effect.either), nested("b", false)], {
+            concurrency: "unbounded",
+          })
+        );
+
+        expect(failed._tag).toBe("Left");
+        const users = yield* prisma.user.findMany({
+          where: { email: { startsWith: prefix } },
+          orderBy: { email: "asc" },
+        });
+        expect(users.map((user) => user.email)).toEqual([
+          `${prefix}-b-1@example.com`,
+          `${prefix}-b-2@example.com`,
+        ]);
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.live("should not hang when concurrent nested transactions fail", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const prefix = `concurrent-nested-${Date.now()}`;
+        const nested = (name: string, fail: boolean) =>
+          prisma.$transaction(
+            Effect.gen(function* () {
+              yield* prisma.user.create({ data: { email: `${prefix}-${name}-1@example.com` } });
+              yield* prisma.user.create({ data: { email: `${prefix}-${name}-2@example.com` } });
+              if (fail) return yield* Effect.fail("nested failure" as const);
+            })
+          );
+
+        const exit = yield* prisma
+          .$transaction(
+            Effect.all([nested("a", true), nested("b", false)], {
+              concurrency: "unbounded",
+            })
+          )
+          .pipe(Effect.timeout("8 seconds"), Effect.exit);
+
+        // The failure surfaces instead of the transaction hanging until the timeout
+        expect(exit._tag).toBe("Failure");
+        if (exit._tag === "Failure") {
+          expect(String(exit.cause)).not.toContain("TimeoutException");
+        }
+        expect(
+          yield* prisma.user.count({ where: { email: { startsWith: prefix } } })
+        ).toBe(0);
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should require a transaction for prisma.tx operations", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const email = `tx-view-${Date.now()}@example.com`;
+
+        const create = prisma.tx.user.create({ data: { email } });
+        expectTypeOf<Effect.Effect.Context<typeof create>>().toEqualTypeOf<PrismaTransactionClientService>();
+
+        const user = yield* prisma.$transaction(create);
+        expect(user.email).toBe(email);
+
+        // @ts-expect-error - prisma.tx operations cannot run outside a transaction
+        const _outside: Effect.Effect<number, unknown, never> = prisma.tx.user.count();
+
+        // Cleanup
+        yield* prisma.user.delete({ where: { id: user.id } });
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should run $saga steps in their own transactions", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const prefix = `saga-ok-${Date.now()}`;
+
+        const [user, tag] = yield* prisma.$saga([
+          {
+            run: prisma.user.create({ data: { email: `${prefix}@example.com` } }),
+            compensate: (user) => prisma.user.delete({ where: { id: user.id } }),
+          },
+          {
+            run: prisma.tag.create({ data: { label: prefix } }),
+            compensate: (tag) => prisma.tag.delete({ where: { label: tag.label } }),
+          },
+        ]);
+
+        expect(user.email).toBe(`${prefix}@example.com`);
+        expect(tag.label).toBe(prefix);
+
+        // Cleanup
+        yield* prisma.tag.delete({ where: { label: tag.label } });
+        yield* prisma.user.delete({ where: { id: user.id } });
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should compensate completed $saga steps in reverse when a step fails", () =>
+      Effect.gen(function* () {
+        class PaymentDeclined extends Data.TaggedError("PaymentDeclined") {}
+        const prisma = yield* Prisma;
+        const prefix = `saga-fail-${Date.now()}`;
+        const compensated: Array<string> = [];
+
+        const error = yield* prisma
+          .$saga([
+            {
+              run: prisma.user.create({ data: { email: `${prefix}-1@example.com` } }),
+              compensate: (user) =>
+                prisma.user
+                  .delete({ where: { id: user.id } })
+                  .pipe(Effect.tap(() => compensated.push("first"))),
+            },
+            {
+              run: prisma.user.create({ data: { email: `${prefix}-2@example.com` } }),
+              compensate: (user) =>
+                prisma.user
+                  .delete({ where: { id: user.id } })
+                  .pipe(Effect.tap(() => compensated.push("second"))),
+            },
+            {
+              run: Effect.fail(new PaymentDeclined()),
+              compensate: () => Effect.void,
+            },
+          ])
+          .pipe(Effect.flip);
+
+        expect(error).toBeInstanceOf(PaymentDeclined);
+        expect(compensated).toEqual(["second", "first"]);
+        expect(
+          yield* prisma.user.count({ where: { email: { startsWith: prefix } } })
+        ).toBe(0);
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should report failed $saga compensations in PrismaSagaCompensationError", () =>
+      Effect.gen(function* () {
+        class PaymentDeclined extends Data.TaggedError("PaymentDeclined") {}
+        const prisma = yield* Prisma;
+        const prefix = `saga-compensation-${Date.now()}`;
+
+        const error = yield* prisma
+          .$saga([
+            {
+              run: prisma.user.create({ data: { email: `${prefix}@example.com` } }),
+              // Fails: the user was already deleted
+              compensate: () => prisma.user.delete({ where: { id: 999999 } }),
+            },
+            {
+              run: Effect.fail(new PaymentDeclined()),
+              compensate: () => Effect.void,
+            },
+          ])
+          .pipe(Effect.flip);
+
+        expect(error).toBeInstanceOf(PrismaSagaCompensationError);
+        if (error._tag === "PrismaSagaCompensationError") {
+          expect(error.step).toBe(1);
+          expect(error.error).toBeInstanceOf(PaymentDeclined);
+          expect(error.compensations).toHaveLength(1);
+          expect(error.compensations[0]?.step).toBe(0);
+          expect(error.compensations[0]?.error).toBeInstanceOf(PrismaRecordNotFoundError);
+        }
+
+        // Cleanup
+        yield* prisma.user.deleteMany({ where: { email: { startsWith: prefix } } });
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should run every $saga compensation when one dies", () =>
+      Effect.gen(function* () {
+        class PaymentDeclined extends Data.TaggedError("PaymentDeclined") {}
+        const prisma = yield* Prisma;
+        const prefix = `saga-compensation-die-${Date.now()}`;
+
+        const error = yield* prisma
+          .$saga([
+            {
+              run: prisma.user.create({ data: { email: `${prefix}-first@example.com` } }),
+              compensate: (user) => prisma.user.delete({ where: { id: user.id } }),
+            },
+            {
+              run: prisma.user.create({ data: { email: `${prefix}-second@example.com` } }),
+              compensate: () => Effect.die("compensation boom"),
+            },
+            {
+              run: Effect.fail(new PaymentDeclined()),
+              compensate: () => Effect.void,
+            },
+          ])
+          .pipe(Effect.flip);
+
+        expect(error).toBeInstanceOf(PrismaSagaCompensationError);
+        if (error._tag === "PrismaSagaCompensationError") {
+          expect(error.step).toBe(2);
+          expect(error.error).toBeInstanceOf(PaymentDeclined);
+          expect(error.compensations).toEqual([]);
+          expect(error.defects).toEqual([{ step: 1, defect: "compensation boom" }]);
+        }
+
+        // The first step was still compensated after the second one died
+        expect(
+          yield* prisma.user.count({ where: { email: `${prefix}-first@example.com` } })
+        ).toBe(0);
+
+        // Cleanup
+        yield* prisma.user.deleteMany({ where: { email: { startsWith: prefix } } });
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should compensate completed $saga steps when a step dies", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const email = `saga-die-${Date.now()}@example.com`;
+
+        const exit = yield* prisma
+          .$saga([
+            {
+              run: prisma.user.create({ data: { email } }),
+              compensate: (user) => prisma.user.delete({ where: { id: user.id } }),
+            },
+            {
+              run: Effect.die("boom"),
+              compensate: () => Effect.void,
+            },
+          ])
+          .pipe(Effect.exit);
+
+        // The original defect is re-raised after compensating
+        expect(exit._tag).toBe("Failure");
+        if (exit._tag === "Failure") {
+          expect(Cause.isDie(exit.cause)).toBe(true);
+          expect(Cause.squash(exit.cause)).toBe("boom");
+        }
+        expect(yield* prisma.user.findUnique({ where: { email } })).toBeNull();
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should enable point-free programming style", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const email = `tx-point-free-${Date.now()}@example.com`;
+
+        // Define reusable transaction boundary
+        const withTransaction = prisma.$transaction;
+
+        // Create effect to run in transaction
+        const createUserEffect = Effect.gen(function* () {
+          const user = yield* prisma.user.create({
+            data: { email, name: "Point Free User" },
+          });
+          return user;
+        });
+
+        // Use point-free style with pipe
+        const result = yield* pipe(createUserEffect, withTransaction);
+
+        expect(result.email).toBe(email);
+
+        // Cleanup
+        yield* prisma.user.delete({ where: { id: result.id } });
+      }).pipe(Effect.provide(MainLayer)),
+    );
+  });
+
+  // ============================================
+  // Transactions Across Databases
+  // ============================================
+
+  describe("Transactions across databases", () => {
+    const AcrossLayer = Layer.merge(MainLayer, AnalyticsLayer);
+    // Analytics transactions expire before they commit
+    const ExpiringAnalyticsLayer = Analytics.Prisma.layer({
+      datasourceUrl: "file:./analytics.db",
+      transactionOptions: { timeout: 100 },
+    });
+    const ExpiringLayer = Layer.merge(MainLayer, ExpiringAnalyticsLayer);
+    // Rollbacks of the main database fail after rolling back, as Prisma
+    // itself never reports them
+    const FailingRollbackLayer = Layer.effect(
+      Prisma,
+      Effect.map(Prisma, (prisma) => ({
+        ...prisma,
+        $transactionScoped: () =>
+          Effect.map(prisma.$transactionScoped(), (handle) => ({
+            ...handle,
+            rollback: Effect.zipRight(
+              handle.rollback,
+              Effect.fail(
+                new PrismaTransactionClosedError({
+                  cause: new Error("rollback failed"),
+                  operation: "$rollback",
+                  model: "Prisma",
+                }),
+              ),
+            ),
+          })),
+      })),
+    ).pipe(Layer.provide(MainLayer), Layer.merge(ExpiringAnalyticsLayer));
+
+    beforeAll(() => copyFileSync("dev.db", "analytics.db"));
+    afterAll(() => rmSync("analytics.db", { force: true }));
+
+    it("should give generated services distinct tags", () => {
+      expect(Prisma.key).toBe("Prisma");
+      expect(Analytics.Prisma.key).toBe("analytics/Prisma");
+      expect(Analytics.PrismaTransactionClientService.key).toBe(
+        "analytics/PrismaTransactionClientService",
+      );
+    });
+
+    it.effect("should commit the transactions of all participants", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const analytics = yield* Analytics.Prisma;
+        const email = `across-ok-${Date.now()}@example.com`;
+
+        const program = Effect.gen(function* () {
+          yield* prisma.tx.user.create({ data: { email } });
+          yield* analytics.tx.user.create({ data: { email } });
+          return "done";
+        });
+        const across = $transactionAcross([Prisma, Analytics.Prisma], program);
+        expectTypeOf<Effect.Effect.Context<typeof across>>().toEqualTypeOf<
+          Prisma | Analytics.Prisma
+        >();
+
+        expect(yield* across).toBe("done");
+        expect(yield* prisma.user.count({ where: { email } })).toBe(1);
+        expect(yield* analytics.user.count({ where: { email } })).toBe(1);
+
+        // Cleanup
+        yield* prisma.user.delete({ where: { email } });
+        yield* analytics.user.delete({ where: { email } });
+      }).pipe(Effect.provide(AcrossLayer)),
+    );
+
+    it.effect("should roll back all participants when the effect fails", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const analytics = yield* Analytics.Prisma;
+        const email = `across-fail-${Date.now()}@example.com`;
+
+        const error = yield* $transactionAcross(
+          [Prisma, Analytics.Prisma],
+          Effect.gen(function* () {
+            yield* prisma.user.create({ data: { email } });
+            yield* analytics.user.create({ data: { email } });
+            return yield* Effect.fail("boom" as const);
+          }),
+        ).pipe(Effect.flip);
+
+        expect(error).toBe("boom");
+        expect(yield* prisma.user.count({ where: { email } })).toBe(0);
+        expect(yield* analytics.user.count({ where: { email } })).toBe(0);
+      }).pipe(Effect.provide(AcrossLayer)),
+    );
+
+    it.live("should roll back the rest when the first commit fails", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const email = `across-first-${Date.now()}@example.com`;
+
+        const error = yield* $transactionAcross(
+          [Analytics.Prisma, Prisma],
+          Effect.gen(function* () {
+            yield* prisma.user.create({ data: { email } });
+            yield* Effect.sleep("300 millis");
+          }),
+        ).pipe(Effect.flip);
+
+        expect(error).toBeInstanceOf(Analytics.PrismaTransactionExpiredError);
+        expect(yield* prisma.user.count({ where: { email } })).toBe(0);
+      }).pipe(Effect.provide(ExpiringLayer)),
+    );
+
+    it.live("should report failed rollbacks when the first commit fails", () =>
+      Effect.gen(function* () {
+        const analytics = yield* Analytics.Prisma;
+        const email = `across-first-rollback-${Date.now()}@example.com`;
+
+        // The first commit fails, then so does the rollback of the second
+        const error = yield* $transactionAcross(
+          [Analytics.Prisma, Prisma],
+          Effect.gen(function* () {
+            yield* analytics.user.create({ data: { email } });
+            yield* Effect.sleep("300 millis");
+          }),
+        ).pipe(Effect.flip);
+
+        expect(error).toBeInstanceOf(PrismaPartialCommitError);
+        if (error._tag === "PrismaPartialCommitError") {
+          expect(error.committed).toEqual([]);
+          expect(error.failed).toBe("analytics/Prisma");
+          expect(error.error).toBeInstanceOf(Analytics.PrismaTransactionExpiredError);
+          expect(error.rolledBack).toEqual([]);
+          expect(error.rollbackFailures).toHaveLength(1);
+          expect(error.rollbackFailures[0]?.participant).toBe("Prisma");
+          expect(error.rollbackFailures[0]?.error).toBeInstanceOf(PrismaTransactionClosedError);
+        }
+        expect(yield* analytics.user.count({ where: { email } })).toBe(0);
+      }).pipe(Effect.provide(FailingRollbackLayer)),
+    );
+
+    it.live("should fail with PrismaPartialCommitError after a partial commit", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const email = `across-partial-${Date.now()}@example.com`;
+
+        const error = yield* $transactionAcross(
+          [Prisma, Analytics.Prisma],
+          Effect.gen(function* () {
+            yield* prisma.user.create({ data: { email } });
+            yield* Effect.sleep("300 millis");
+          }),
+        ).pipe(Effect.flip);
+
+        expect(error).toBeInstanceOf(PrismaPartialCommitError);
+        if (error._tag === "PrismaPartialCommitError") {
+          expect(error.committed).toEqual(["Prisma"]);
+          expect(error.failed).toBe("analytics/Prisma");
+          expect(error.rolledBack).toEqual([]);
+          expect(error.rollbackFailures).toEqual([]);
+          expect(error.error).toBeInstanceOf(Analytics.PrismaTransactionExpiredError);
+        }
+        expect(yield* prisma.user.count({ where: { email } })).toBe(1);
+
+        // Cleanup
+        yield* prisma.user.delete({ where: { email } });
+      }).pipe(Effect.provide(ExpiringLayer)),
+    );
+
+    it.effect("should die when participants share a tag", () =>
+      Effect.gen(function* () {
+        const exit = yield* $transactionAcross(
+          [Prisma, Prisma],
+          Effect.void,
+        ).pipe(Effect.exit);
+
+        expect(exit._tag).toBe("Failure");
+      }).pipe(Effect.provide(MainLayer)),
+    );
+  });
+
+  // ============================================
+  // Error Handling
+  // ============================================
+
+  describe("Error handling", () => {
+    it.effect("should return PrismaUniqueConstraintError on duplicate", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const email = `unique-error-${Date.now()}@example.com`;
+
+        yield* prisma.user.create({ data: { email, name: "First" } });
+
+        const error = yield* prisma.user
+          .create({ data: { email, name: "Duplicate" } })
+          .pipe(Effect.flip);
+
+        expect(error).toBeInstanceOf(PrismaUniqueConstraintError);
+        if (error instanceof PrismaUniqueConstraintError) {
+          expect(error.cause.code).toBe("P2002");
+          // Normalized from meta.target (Prisma 6) or the driver adapter error (Prisma 7)
+          expect(error.fields).toEqual(["email"]);
+          expect(error.reportedFields).toEqual(["email"]);
+        }
+
+        // Cleanup
+        yield* prisma.user.delete({ where: { email } });
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should map errors of a model without relations with its own mapper", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const label = `tag-${Date.now()}`;
+
+        yield* prisma.tag.create({ data: { label } });
+
+        const error = yield* prisma.tag
+          .create({ data: { label } })
+          .pipe(Effect.flip);
+
+        expect(error).toBeInstanceOf(PrismaUniqueConstraintError);
+        if (error._tag === "PrismaUniqueConstraintError") {
+          expect(error.model).toBe("Tag");
+          expect(error.fields).toEqual(["label"]);
+        }
+
+        // Cleanup
+        yield* prisma.tag.delete({ where: { label } });
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should keep client errors of a model without relations", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const error = yield* prisma.tag
+          .create({ data: { label: 42 as unknown as string } })
+          .pipe(Effect.flip);
+
+        expect(error).toBeInstanceOf(PrismaValidationError);
+        expect(error.model).toBe("Tag");
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should return PrismaRecordNotFoundError on OrThrow methods", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const findError = yield* prisma.user
+          .findUniqueOrThrow({ where: { id: 999999 } })
+          .pipe(Effect.flip);
+
+        expect(findError).toBeInstanceOf(PrismaRecordNotFoundError);
+
+        const findFirstError = yield* prisma.user
+          .findFirstOrThrow({ where: { id: 999999 } })
+          .pipe(Effect.flip);
+
+        expect(findFirstError).toBeInstanceOf(PrismaRecordNotFoundError);
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should return PrismaForeignKeyConstraintError on invalid FK", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        // Try to create a post with a non-existent author
+        const error = yield* prisma.post
+          .create({
+            data: {
+              title: "Orphan Post",
+              authorId: 999999, // Non-existent user
+            },
+          })
+          .pipe(Effect.flip);
+
+        expect(error).toBeInstanceOf(PrismaForeignKeyConstraintError);
+        if (error instanceof PrismaForeignKeyConstraintError) {
+          expect(error.cause.code).toBe("P2003");
+        }
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should return PrismaRecordNotFoundError on update non-existent", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const error = yield* prisma.user
+          .update({
+            where: { id: 999999 },
+            data: { name: "Will Not Work" },
+          })
+          .pipe(Effect.flip);
+
+        expect(error).toBeInstanceOf(PrismaRecordNotFoundError);
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should return PrismaRecordNotFoundError on delete non-existent", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const error = yield* prisma.user
+          .delete({ where: { id: 999999 } })
+          .pipe(Effect.flip);
+
+        expect(error).toBeInstanceOf(PrismaRecordNotFoundError);
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should return PrismaValidationError on invalid query args", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        // Unknown field in where - rejected by the client before reaching the database
+        const error = yield* prisma.user
+          .findMany({ where: { notAField: 1 } } as any)
+          .pipe(Effect.flip);
+
+        expect(error).toBeInstanceOf(PrismaValidationError);
+        expect(error.operation).toBe("findMany");
+        expect(error.model).toBe("User");
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should use a PrismaErrorMapper provided at runtime", () => {
+      const seen: Array<string> = [];
+      const ErrorMapperLayer = PrismaErrorMapper.layer({
+        mapFindOrThrowError: (error, operation, model) => {
+          seen.push(`${operation}:${model}`);
+          return defaultErrorMappers.mapFindOrThrowError(error, operation, model);
+        },
+      });
+
+      return Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const error = yield* prisma.user
+          .findUniqueOrThrow({ where: { id: 999999 } })
+          .pipe(Effect.flip);
         expect(error).toBeInstanceOf(PrismaRecordNotFoundError);
+        expect(seen).toEqual(["findUniqueOrThrow:User"]);
+
+        // Mappers left out of the layer fall back to the defaults
+        const deleteError = yield* prisma.user
+          .delete({ where: { id: 999999 } })
+          .pipe(Effect.flip);
+        expect(deleteError).toBeInstanceOf(PrismaRecordNotFoundError);
+        expect(seen).toHaveLength(1);
+      }).pipe(Effect.provide(Prisma.layer().pipe(Layer.provide(ErrorMapperLayer))));
+    });
+
+    it.effect("should fail with a defect when a PrismaErrorMapper returns an error the model rules out", () => {
+      // Tag has no relations, so its operations cannot fail with relation errors
+      const ErrorMapperLayer = PrismaErrorMapper.layer({
+        mapDeleteError: (error, operation, model) => {
+          const mapped = defaultErrorMappers.mapDeleteError(error, operation, model);
+          return mapped._tag === "PrismaRecordNotFoundError"
+            ? new PrismaForeignKeyConstraintError({ cause: mapped.cause, operation, model, fieldName: undefined })
+            : mapped;
+        },
+      });
+
+      return Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const exit = yield* prisma.tag.delete({ where: { id: 999999 } }).pipe(Effect.exit);
+
+        expect(exit._tag).toBe("Failure");
+        if (exit._tag === "Failure") {
+          expect(Cause.isDie(exit.cause)).toBe(true);
+          const defect = Cause.squash(exit.cause);
+          expect(String(defect)).toContain("delete on Tag cannot fail with PrismaForeignKeyConstraintError");
+          // The mapped error is kept as the cause of the defect
+          expect((defect as Error).cause).toBeInstanceOf(PrismaForeignKeyConstraintError);
+          expect((defect as Error).cause).toMatchObject({ operation: "delete", model: "Tag" });
+        }
+      }).pipe(Effect.provide(Prisma.layer().pipe(Layer.provide(ErrorMapperLayer))));
+    });
+
+    it.effect("should fail with a defect when a PrismaErrorMapper returns unique fields that are not a key of the model", () => {
+      const ErrorMapperLayer = PrismaErrorMapper.layer({
+        mapCreateError: (error, operation, model) => {
+          const mapped = defaultErrorMappers.mapCreateError(error, operation, model);
+          return mapped._tag === "PrismaUniqueConstraintError"
+            ? new PrismaUniqueConstraintError({
+                cause: mapped.cause,
+                operation,
+                model,
+                fields: ["name"],
+                reportedFields: mapped.reportedFields,
+                constraint: mapped.constraint,
+              })
+            : mapped;
+        },
+      });
+
+      return Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const email = `unique-mapper-${Date.now()}@example.com`;
+        yield* prisma.user.create({ data: { email } });
+
+        const exit = yield* prisma.user.create({ data: { email } }).pipe(Effect.exit);
+
+        expect(exit._tag).toBe("Failure");
+        if (exit._tag === "Failure") {
+          expect(Cause.isDie(exit.cause)).toBe(true);
+          const defect = Cause.squash(exit.cause);
+          expect(String(defect)).toContain("create on User cannot fail with PrismaUniqueConstraintError");
+          expect((defect as Error).cause).toMatchObject({ fields: ["name"], reportedFields: ["email"] });
+        }
+        yield* prisma.user.delete({ where: { email } });
+      }).pipe(Effect.provide(Prisma.layer().pipe(Layer.provide(ErrorMapperLayer))));
+    });
+
+    it.effect("should classify errors by category", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+        const email = `category-${Date.now()}@example.com`;
+
+        yield* prisma.user.create({ data: { email } });
+        const duplicate = yield* prisma.user
+          .create({ data: { email } })
+          .pipe(Effect.flip);
+
+        expect(isConstraintError(duplicate)).toBe(true);
+        expect(isRetryable(duplicate)).toBe(false);
+        expect(isNotFound(duplicate)).toBe(false);
+
+        const result = yield* prisma.user
+          .findUniqueOrThrow({ where: { id: 999999 } })
+          .pipe(Effect.catchIf(isNotFound, () => Effect.succeed(null)));
+        expect(result).toBeNull();
+
+        // Cleanup
+        yield* prisma.user.delete({ where: { email } });
+      }).pipe(Effect.provide(MainLayer)),
+    );
+
+    it.effect("should return PrismaRawQueryError when a raw query fails", () =>
+      Effect.gen(function* () {
+        const prisma = yield* Prisma;
+
+        const error = yield* prisma
+          .$queryRawUnsafe('SELECT * FROM "NoSuchTable"')
+          .pipe(Effect.flip);
+
+        expect(error).toBeInstanceOf(PrismaRawQueryError);
+        if (error instanceof PrismaRawQueryError) {
+          expect(error.cause.code).toBe("P2010");
+        }
       }).pipe(Effect.provide(MainLayer)),
     );
   });
@@ -12,14 +12,33 @@
  */
 
 import { describe, expectTypeOf, it } from "@effect/vitest";
-import { Effect } from "effect";
+import { Effect, Match } from "effect";
 import {
   PrismaService,
   PrismaFindError,
   PrismaFindOrThrowError,
-  PrismaCreateError,
-  PrismaUpdateError,
+  UserCreateError,
+  UserUpdateError,
+  UserUniqueFields,
   PrismaDeleteError,
+  PrismaValidationError,
+  PrismaUnknownRequestError,
+  PrismaUniqueConstraintError,
+  PrismaForeignKeyConstraintError,
+  PrismaRelationViolationError,
+  TagCreateError,
+  PrismaSchemaMismatchError,
+  PrismaDatabaseUnavailableError,
+  PrismaTransactionApiError,
+  PrismaRawQueryError,
+  PrismaRecordNotFoundError,
+  PrismaTransactionConflictError,
+  PrismaRetryableError,
+  PrismaConstraintError,
+  PrismaError,
+  isNotFound,
+  isRetryable,
+  retryableErrorTags,
 } from "./generated/effect/index.js";
 
 // Helper type to get PrismaService instance type
@@ -424,16 +443,16 @@ describe("Type-level tests", () => {
       };
     });
 
-    it("create errors include PrismaCreateError (type-only)", () => {
+    it("create errors include UserCreateError (type-only)", () => {
       const _typeCheck = (prisma: Prisma) => {
         const effect = prisma.user.create({ data: { email: "x@x.com" } });
 
         type ErrorType = Effect.Effect.Error<typeof effect>;
-        expectTypeOf<ErrorType>().toEqualTypeOf<PrismaCreateError>();
+        expectTypeOf<ErrorType>().toEqualTypeOf<UserCreateError>();
       };
     });
 
-    it("update errors include PrismaUpdateError (type-only)", () => {
+    it("update errors include UserUpdateError (type-only)", () => {
       const _typeCheck = (prisma: Prisma) => {
         const effect = prisma.user.update({
           where: { id: 1 },
@@ -441,7 +460,7 @@ describe("Type-level tests", () => {
         });
 
         type ErrorType = Effect.Effect.Error<typeof effect>;
-        expectTypeOf<ErrorType>().toEqualTypeOf<PrismaUpdateError>();
+        expectTypeOf<ErrorType>().toEqualTypeOf<UserUpdateError>();
       };
     });
 
@@ -453,6 +472,122 @@ describe("Type-level tests", () => {
         expectTypeOf<ErrorType>().toEqualTypeOf<PrismaDeleteError>();
       };
     });
+
+    it("client errors without a code are typed on every operation (type-only)", () => {
+      const _typeCheck = (prisma: Prisma) => {
+        const find = prisma.user.findMany({ where: { name: "x" } });
+        const create = prisma.user.create({ data: { email: "x@x.com" } });
+
+        expectTypeOf<PrismaValidationError>().toMatchTypeOf<Effect.Effect.Error<typeof find>>();
+        expectTypeOf<PrismaUnknownRequestError>().toMatchTypeOf<
+          Effect.Effect.Error<typeof create>
+        >();
+      };
+    });
+
+    it("constraint errors expose normalized metadata (type-only)", () => {
+      expectTypeOf<PrismaUniqueConstraintError["fields"]>().toEqualTypeOf<ReadonlyArray<string> | undefined>();
+      expectTypeOf<PrismaUniqueConstraintError["reportedFields"]>().toEqualTypeOf<ReadonlyArray<string>>();
+      expectTypeOf<PrismaForeignKeyConstraintError["fieldName"]>().toEqualTypeOf<
+        string | undefined
+      >();
+    });
+
+    it("unique constraint fields are typed with the model's unique keys (type-only)", () => {
+      const _typeCheck = (prisma: Prisma) => {
+        const effect = prisma.user.create({ data: { email: "x@x.com" } });
+        type UniqueError = Extract<
+          Effect.Effect.Error<typeof effect>,
+          { _tag: "PrismaUniqueConstraintError" }
+        >;
+
+        // undefined when the reported fields match none of the keys
+        expectTypeOf<UniqueError["fields"]>().toEqualTypeOf<UserUniqueFields | undefined>();
+        expectTypeOf<UserUniqueFields>().toEqualTypeOf<["id"] | ["email"]>();
+
+        // Every unique key can be matched, so the match is exhaustive
+        const _match = (error: UniqueError) =>
+          Match.value(error.fields).pipe(
+            Match.when(["id"], () => "id" as const),
+            Match.when(["email"], () => "email" as const),
+            Match.when(undefined, () => "unknown" as const),
+            Match.exhaustive,
+          );
+      };
+    });
+
+    it("models without relations cannot fail with relation errors (type-only)", () => {
+      const _typeCheck = (prisma: Prisma) => {
+        const create = prisma.tag.create({ data: { label: "x" } });
+        const remove = prisma.tag.delete({ where: { id: 1 } });
+
+        expectTypeOf<Effect.Effect.Error<typeof create>>().toEqualTypeOf<TagCreateError>();
+        expectTypeOf<PrismaForeignKeyConstraintError>().not.toMatchTypeOf<TagCreateError>();
+        expectTypeOf<PrismaRelationViolationError>().not.toMatchTypeOf<
+          Effect.Effect.Error<typeof remove>
+        >();
+        expectTypeOf<Extract<TagCreateError, { _tag: "PrismaUniqueConstraintError" }>["fields"]>()
+          .toEqualTypeOf<["id"] | ["label"] | undefined>();
+      };
+    });
+
+    it("schema drift and transaction API errors are typed on model operations (type-only)", () => {
+      const _typeCheck = (prisma: Prisma) => {
+        const find = prisma.user.findMany();
+        const create = prisma.user.create({ data: { email: "x@x.com" } });
+
+        expectTypeOf<PrismaSchemaMismatchError>().toMatchTypeOf<Effect.Effect.Error<typeof find>>();
+        expectTypeOf<PrismaDatabaseUnavailableError>().toMatchTypeOf<
+          Effect.Effect.Error<typeof find>
+        >();
+        expectTypeOf<PrismaTransactionApiError>().toMatchTypeOf<
+          Effect.Effect.Error<typeof create>
+        >();
+        expectTypeOf<PrismaRawQueryError>().not.toMatchTypeOf<Effect.Effect.Error<typeof find>>();
+        expectTypeOf<PrismaSchemaMismatchError["table"]>().toEqualTypeOf<string | undefined>();
+      };
+    });
+
+    it("error categories narrow with guards and match by tags (type-only)", () => {
+      const _typeCheck = (prisma: Prisma) => {
+        const effect = prisma.user.findUniqueOrThrow({ where: { id: 1 } });
+        type ErrorType = Effect.Effect.Error<typeof effect>;
+
+        const handle = (error: ErrorType) => {
+          if (isNotFound(error)) {
+            expectTypeOf(error).toEqualTypeOf<PrismaRecordNotFoundError>();
+          }
+          return Match.value(error).pipe(
+            Match.when(isRetryable, () => "retry" as const),
+            Match.when(isNotFound, () => "not found" as const),
+            Match.orElse(() => "other" as const),
+          );
+        };
+        expectTypeOf(handle).returns.toEqualTypeOf<"retry" | "not found" | "other">();
+
+        // Tag lists spread into Match.tag on unions that contain all of them
+        const handleAny = (error: PrismaError) =>
+          Match.value(error).pipe(
+            Match.tag(...retryableErrorTags, (e) => e._tag),
+            Match.orElse(() => undefined),
+          );
+        expectTypeOf(handleAny).returns.toEqualTypeOf<PrismaRetryableError["_tag"] | undefined>();
+        expectTypeOf<PrismaUniqueConstraintError>().toMatchTypeOf<PrismaConstraintError>();
+        expectTypeOf<PrismaTransactionConflictError>().toMatchTypeOf<PrismaRetryableError>();
+      };
+    });
+
+    it("models with relations keep relation errors (type-only)", () => {
+      const _typeCheck = (prisma: Prisma) => {
+        const effect = prisma.post.create({
+          data: { title: "x", authorId: 1 },
+        });
+
+        expectTypeOf<PrismaForeignKeyConstraintError>().toMatchTypeOf<
+          Effect.Effect.Error<typeof effect>
+        >();
+      };
+    });
   });
 
   // ============================================
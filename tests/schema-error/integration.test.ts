@@ -0,0 +1,115 @@
+import { describe, expect, expectTypeOf, it } from "@effect/vitest";
+import { Effect, Schema } from "effect";
+import {
+  Prisma,
+  PrismaErrorSchema,
+  PrismaRecordNotFoundError,
+  PrismaSagaCompensationError,
+  PrismaTransactionOptionsConflictError,
+  PrismaUniqueConstraintError,
+  type UserUniqueFields,
+} from "./generated/effect/index.js";
+
+const MainLayer = Prisma.layer();
+
+// Encodes to JSON and back, as across an RPC or worker boundary
+const roundTrip = (error: typeof PrismaErrorSchema.Type) =>
+  Schema.encode(PrismaErrorSchema)(error).pipe(
+    Effect.map((encoded) => JSON.parse(JSON.stringify(encoded))),
+    Effect.flatMap(Schema.decodeUnknown(PrismaErrorSchema)),
+  );
+
+describe("Schema Error Classes", () => {
+  it.effect("unique constraint violation - serializable payload", () =>
+    Effect.gen(function* () {
+      const prisma = yield* Prisma;
+      const email = `schema-unique-${Date.now()}@example.com`;
+
+      const user = yield* prisma.user.create({ data: { email } });
+      const error = yield* prisma.user
+        .create({ data: { email } })
+        .pipe(Effect.flip);
+
+      expect(error).toBeInstanceOf(PrismaUniqueConstraintError);
+      if (error._tag === "PrismaUniqueConstraintError") {
+        expectTypeOf(error.fields).toEqualTypeOf<UserUniqueFields | undefined>();
+        expect(error.code).toBe("P2002");
+        expect(error.message).toContain("Unique constraint");
+        expect(error.cause).toBeDefined();
+      }
+
+      const encoded = yield* Schema.encode(PrismaErrorSchema)(error);
+      expect(encoded).toEqual({
+        _tag: "PrismaUniqueConstraintError",
+        code: "P2002",
+        message: error.message,
+        operation: "create",
+        model: "User",
+        fields: ["email"],
+        reportedFields: ["email"],
+        constraint: undefined,
+      });
+      expect(JSON.stringify(encoded)).not.toContain("cause");
+
+      yield* prisma.user.delete({ where: { id: user.id } });
+    }).pipe(Effect.provide(MainLayer)),
+  );
+
+  it.effect("decoded errors can be caught by tag", () =>
+    Effect.gen(function* () {
+      const prisma = yield* Prisma;
+
+      const error = yield* prisma.user
+        .findUniqueOrThrow({ where: { id: 999999 } })
+        .pipe(Effect.flip);
+      const decoded = yield* roundTrip(error);
+
+      expect(decoded).toBeInstanceOf(PrismaRecordNotFoundError);
+      expect(decoded.cause).toBeUndefined();
+
+      const result = yield* Effect.fail(decoded).pipe(
+        Effect.catchTag("PrismaRecordNotFoundError", (e) =>
+          Effect.succeed(`${e.code} ${e.operation} ${e.model}`),
+        ),
+        Effect.orElseSucceed(() => "other"),
+      );
+      expect(result).toBe("P2025 findUniqueOrThrow User");
+    }).pipe(Effect.provide(MainLayer)),
+  );
+
+  it.effect("transaction option conflicts are serializable", () =>
+    Effect.gen(function* () {
+      const prisma = yield* Prisma;
+
+      const error = yield* prisma
+        .$transactionWith(prisma.$transactionWith(Effect.void, { timeout: 10000 }), { timeout: 5000 })
+        .pipe(Effect.flip);
+      const decoded = yield* roundTrip(error);
+
+      expect(decoded).toBeInstanceOf(PrismaTransactionOptionsConflictError);
+      expect(decoded).toMatchObject({ option: "timeout", requested: 10000, active: 5000 });
+    }).pipe(Effect.provide(MainLayer)),
+  );
+
+  it.effect("saga compensation errors keep the wrapped errors on the server", () =>
+    Effect.gen(function* () {
+      const error = new PrismaSagaCompensationError({
+        step: 1,
+        error: new Error("step failed"),
+        compensations: [{ step: 0, error: new Error("compensation failed") }],
+        defects: [{ step: 2, defect: "boom" }],
+      });
+
+      const encoded = yield* Schema.encode(PrismaErrorSchema)(error);
+      expect(JSON.parse(JSON.stringify(encoded))).toEqual({
+        _tag: "PrismaSagaCompensationError",
+        step: 1,
+        compensations: [{ step: 0 }],
+        defects: [{ step: 2 }],
+      });
+
+      const decoded = yield* roundTrip(error);
+      expect(decoded).toBeInstanceOf(PrismaSagaCompensationError);
+    }),
+  );
+});